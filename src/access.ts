@@ -0,0 +1,58 @@
+import { Context, Session, Time } from 'koishi'
+import type { Config } from './index'
+import { channelKey } from './target'
+
+export interface AccessOptions {
+  // 只能在这些频道中使用，留空则不限制；设置后不能在私聊中使用
+  allowedSourceChannels: string[]
+  // 只有这些用户可以使用，留空则不限制
+  allowedUsers: string[]
+  // 这些用户不能使用，优先于 allowedUsers
+  deniedUsers: string[]
+  // 同一用户两次使用之间的冷却时间，单位秒，0 表示不限制
+  cooldown: number
+}
+
+// 指令级的访问控制：在权限等级之外按来源频道、用户名单与冷却时间限制转发指令
+export function createAccessControl(ctx: Context, config: Config) {
+  const logger = ctx.logger('message-relay')
+  // 指令标识 → 用户 → 上次使用的时间
+  const lastUsed = new Map<string, Map<string, number>>()
+
+  // 返回拒绝原因；允许使用时返回 undefined
+  function check(key: string, options: AccessOptions, session: Session) {
+    const userId = `${session.platform}:${session.userId}`
+    const reason = deny(key, options, session, userId)
+    if (reason && config.debug) logger.info(`(访问控制) 用户 ${userId} 使用「${key}」被拒绝：${reason}`)
+    return reason
+  }
+
+  function deny(key: string, options: AccessOptions, session: Session, userId: string) {
+    if (options.deniedUsers?.includes(userId)) return '错误：你没有权限使用该指令。'
+    if (options.allowedUsers?.length && !options.allowedUsers.includes(userId)) return '错误：你没有权限使用该指令。'
+    if (options.allowedSourceChannels?.length) {
+      if (session.isDirect) return '错误：该指令不能在私聊中使用。'
+      const source = `${session.platform}:${session.channelId}`
+      if (!options.allowedSourceChannels.some(channel => channelKey(channel) === source)) return '错误：该指令不能在当前群聊中使用。'
+    }
+    const time = lastUsed.get(key)?.get(userId)
+    const remaining = time === undefined ? 0 : time + options.cooldown * Time.second - Date.now()
+    if (remaining > 0) return `错误：指令冷却中，请在 ${Math.ceil(remaining / Time.second)} 秒后再试。`
+  }
+
+  // 在通过校验并开始转发时记录使用时间
+  function touch(key: string, options: AccessOptions, session: Session) {
+    if (!options.cooldown) return
+    let users = lastUsed.get(key)
+    if (!users) lastUsed.set(key, users = new Map())
+    users.set(`${session.platform}:${session.userId}`, Date.now())
+  }
+
+  ctx.on('dispose', () => {
+    lastUsed.clear()
+  })
+
+  return { check, touch }
+}
+
+export type AccessControl = ReturnType<typeof createAccessControl>
@@ -0,0 +1,219 @@
+import { Context, Session, Time, h } from 'koishi'
+import type { Config } from './index'
+import * as ledger from './ledger'
+import { RelayDelivery, RelaySource } from './ledger'
+import type { MediaPipeline } from './media'
+import type { TargetResolver } from './target'
+import { previewContent } from './template'
+
+declare module 'koishi' {
+  interface Tables {
+    message_relay_approval: PendingRelay
+  }
+}
+
+// 发往一个目标频道的内容：依次发送的消息，已按目标平台适配并序列化为字符串
+// 媒体保留为源链接，不在每个目标的副本中重复保存内联数据，预览与审核通过时再下载
+export interface ApprovalPayload {
+  target: string
+  messages: string[]
+}
+
+// 一条等待审核的转发
+export interface PendingRelay {
+  id: number
+  // 审核通过后写入转发记录的来源信息
+  source: RelaySource
+  payload: ApprovalPayload[]
+  // 申请者及其所在频道 (带平台前缀)，用于通知审核结果
+  requester: string
+  requesterChannel: string
+  direct: boolean
+  // 审核频道中预览消息的 ID，回复这些消息即可审核
+  previewMessageIds: string[]
+  createdAt: Date
+}
+
+const RULE_LABELS: Record<string, string> = {
+  quoted: '引用转发',
+  manual: '传话筒',
+}
+
+// 审核流程：需要审核的转发先发送预览到审核频道，通过后才发送到目标频道，超时未处理则自动取消
+export function createApproval(ctx: Context, config: Config, resolver: TargetResolver, media: MediaPipeline) {
+  const logger = ctx.logger('message-relay')
+
+  // 检查是否可以提交审核，返回错误信息
+  function unavailable() {
+    if (!ctx.database) return '错误：转发审核需要启用数据库。'
+    if (!config.moderationChannel) return '错误：尚未配置审核频道 (moderationChannel)。'
+  }
+
+  function describeEntry(entry: PendingRelay) {
+    const time = Time.template('yyyy-MM-dd hh:mm:ss', entry.createdAt)
+    const label = RULE_LABELS[entry.source.ruleType] ?? entry.source.ruleType
+    return `#${entry.id} [${label}] ${entry.source.ruleKey} (${time})\n  申请者：${entry.requester} (来自 ${entry.requesterChannel})\n  目标：${entry.payload.map(item => item.target).join('、')}\n  内容：${previewContent(entry.payload[0]?.messages.join('\n') ?? '')}`
+  }
+
+  async function notify(entry: PendingRelay, text: string) {
+    const userId = entry.requester.slice(entry.requester.indexOf(':') + 1)
+    try {
+      await resolver.deliver(entry.requesterChannel, entry.direct ? [h.text(text)] : [h.at(userId), h.text(' ' + text)])
+    } catch (error) {
+      logger.warn(`(审核) 通知申请者 ${entry.requester} 失败:`, error)
+    }
+  }
+
+  // 提交审核，返回回复给申请者的提示
+  async function request(session: Session, source: RelaySource, payload: ApprovalPayload[]) {
+    const error = unavailable()
+    if (error) return error
+    const entry = await ctx.database.create('message_relay_approval', {
+      source,
+      payload,
+      requester: `${session.platform}:${session.userId}`,
+      requesterChannel: `${session.platform}:${session.channelId}`,
+      direct: !!session.isDirect,
+      previewMessageIds: [],
+      createdAt: new Date(),
+    })
+    const label = RULE_LABELS[source.ruleType] ?? source.ruleType
+    const header = [
+      `[待审核 #${entry.id}] ${label}「${source.ruleKey}」`,
+      `申请者：${entry.requester} (来自 ${entry.requesterChannel})`,
+      `目标：${payload.map(item => item.target).join('、')}`,
+      `回复本消息「通过」或「拒绝 原因」，或使用 传声筒.approve ${entry.id} / 传声筒.reject ${entry.id} [原因]。以下为发往 ${payload[0].target} 的内容：`,
+    ].join('\n')
+    const previewMessageIds: string[] = []
+    try {
+      previewMessageIds.push(...await resolver.deliver(config.moderationChannel, [h.text(header)]))
+      for (const message of payload[0].messages) {
+        // 预览内容同样经过 @ 改写，避免 @全体成员 或 @其他用户 在审核频道中产生提醒
+        previewMessageIds.push(...await resolver.send(config.moderationChannel, await media.prepare(h.parse(message))))
+      }
+    } catch (error) {
+      logger.warn(`(审核) 发送预览到审核频道 ${config.moderationChannel} 失败:`, error)
+    }
+    await ctx.database.set('message_relay_approval', entry.id, { previewMessageIds })
+    if (config.debug) logger.info(`(审核) 已提交待审核转发 #${entry.id}，共 ${payload.length} 个目标。`)
+    return `已提交审核 #${entry.id}，审核通过后将转发到 ${payload.length} 个群聊。`
+  }
+
+  // 先从数据库中移除，保证同一条审核只会被处理一次
+  async function take(id: number) {
+    const [entry] = await ctx.database.get('message_relay_approval', { id })
+    if (!entry) return
+    const result = await ctx.database.remove('message_relay_approval', { id })
+    return result.matched ? entry : undefined
+  }
+
+  async function approve(id: number, moderator: string) {
+    const entry = await take(id)
+    if (!entry) return `错误：找不到待审核的转发 #${id}。`
+    const deliveries: RelayDelivery[] = []
+    for (const { target, messages } of entry.payload) {
+      const delivery = resolver.createDelivery(target)
+      deliveries.push(delivery)
+      try {
+        for (const message of messages) {
+          delivery.messageIds.push(...await resolver.send(target, await media.prepare(h.parse(message)), undefined, delivery))
+        }
+        delivery.success = delivery.messageIds.length > 0
+        if (!delivery.success) delivery.error = '未返回消息ID'
+      } catch (error) {
+        logger.error(`[失败] (审核) #${id} 转发到频道 ${target} 时发生错误:`, error)
+        delivery.error = String(error)
+      }
+    }
+    await ledger.recordRelay(ctx, entry.source, deliveries)
+    const successCount = deliveries.filter(delivery => delivery.success).length
+    logger.info(`(审核) ${moderator} 通过了转发 #${id}：成功 ${successCount}/${deliveries.length}`)
+    await notify(entry, `你的转发申请 #${id} 已通过审核，成功送达 ${successCount}/${deliveries.length} 个群聊。`)
+    return `已通过 #${id}：成功 ${successCount}/${deliveries.length}。`
+  }
+
+  async function reject(id: number, moderator: string, reason?: string) {
+    const entry = await take(id)
+    if (!entry) return `错误：找不到待审核的转发 #${id}。`
+    if (config.debug) logger.info(`(审核) ${moderator} 拒绝了转发 #${id}${reason ? `：${reason}` : ''}`)
+    await notify(entry, `你的转发申请 #${id} 未通过审核${reason ? `，原因：${reason}` : '。'}`)
+    return `已拒绝 #${id}。`
+  }
+
+  async function expire() {
+    const deadline = new Date(Date.now() - config.approvalTimeout * Time.second)
+    try {
+      const entries = await ctx.database.get('message_relay_approval', { createdAt: { $lte: deadline } })
+      for (const { id } of entries) {
+        const entry = await take(id)
+        if (!entry) continue
+        if (config.debug) logger.info(`(审核) 转发 #${id} 超时未审核，已自动取消。`)
+        await notify(entry, `你的转发申请 #${id} 超时未审核，已自动取消。`)
+      }
+    } catch (error) {
+      logger.warn('(审核) 清理超时的待审核转发失败:', error)
+    }
+  }
+
+  ctx.inject(['database'], (ctx) => {
+    ctx.model.extend('message_relay_approval', {
+      id: 'unsigned',
+      source: 'json',
+      payload: 'json',
+      requester: 'string(255)',
+      requesterChannel: 'string(255)',
+      direct: 'boolean',
+      previewMessageIds: 'json',
+      createdAt: 'timestamp',
+    }, {
+      autoInc: true,
+    })
+
+    ctx.setInterval(expire, Time.minute)
+
+    ctx.command('传声筒.pending', '查看等待审核的转发', { authority: config.approvalAuthLevel })
+      .action(async () => {
+        const entries = await ctx.database.get('message_relay_approval', {}, { sort: { id: 'asc' } })
+        if (!entries.length) return '当前没有等待审核的转发。'
+        return `等待审核的转发：\n${entries.map(describeEntry).join('\n')}`
+      })
+
+    ctx.command('传声筒.approve <id:posint>', '通过一条待审核的转发', { authority: config.approvalAuthLevel })
+      .action(async ({ session }, id) => {
+        if (!id) return '错误：请指定要通过的审核编号。'
+        return approve(id, `${session.platform}:${session.userId}`)
+      })
+
+    ctx.command('传声筒.reject <id:posint> [reason:text]', '拒绝一条待审核的转发', { authority: config.approvalAuthLevel })
+      .action(async ({ session }, id, reason) => {
+        if (!id) return '错误：请指定要拒绝的审核编号。'
+        return reject(id, `${session.platform}:${session.userId}`, reason)
+      })
+
+    // 在审核频道中回复预览消息「通过」或「拒绝 原因」，转为执行对应指令以沿用权限检查
+    ctx.middleware(async (session, next) => {
+      const quoteId = session.quote?.id
+      if (!quoteId || !config.moderationChannel) return next()
+      if (!resolver.isSameChannel(config.moderationChannel, session.platform, session.channelId)) return next()
+      const text = session.elements
+        .filter(element => element.type === 'text')
+        .map(element => element.attrs.content)
+        .join('')
+        .trim()
+      const capture = /^(通过|拒绝)\s*([\s\S]*)$/.exec(text)
+      if (!capture) return next()
+      const entries = await ctx.database.get('message_relay_approval', {})
+      const entry = entries.find(entry => entry.previewMessageIds.includes(quoteId))
+      if (!entry) return next()
+      const [, action, reason] = capture
+      // 以结构化参数执行，原因中的文字不会被再次解析为指令语法
+      await session.execute(action === '通过'
+        ? { name: '传声筒.approve', args: [entry.id] }
+        : { name: '传声筒.reject', args: reason ? [entry.id, reason] : [entry.id] })
+    }, true)
+  })
+
+  return { unavailable, request }
+}
+
+export type Approval = ReturnType<typeof createApproval>
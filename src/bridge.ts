@@ -0,0 +1,126 @@
+import { Context, Session, h } from 'koishi'
+import type { Config } from './index'
+import * as ledger from './ledger'
+import { RelayDelivery } from './ledger'
+import { ContentFilter, ContentFilterOptions } from './filter'
+import { ConvertedMessage, ElementConverter } from './convert'
+import { countStat } from './stats'
+import { DEFAULT_TEMPLATE, createTemplateVariables } from './template'
+import { TargetResolver, channelKey } from './target'
+
+export interface BridgeRule extends ContentFilterOptions {
+  name: string
+  channels: string[]
+  blockedUsers: string[]
+  ignorePrefixes: string[]
+  allowMedia: boolean
+  syncRecall: boolean
+  syncEdit: boolean
+  template: string
+}
+
+// 防回环：机器人自身（包括同一实例中的其他机器人账号）发出的消息一律不再转发
+export function isOwnMessage(ctx: Context, session: Session) {
+  if (session.userId === session.selfId) return true
+  return ctx.bots.some(bot => bot.platform === session.platform && bot.selfId === session.userId)
+}
+
+// 双向桥接：将任一成员频道的消息同步到同一桥接中的其他所有频道
+export function createBridge(ctx: Context, config: Config, resolver: TargetResolver, converter: ElementConverter, contentFilter: ContentFilter) {
+  const logger = ctx.logger('message-relay')
+
+  function isFiltered(rule: BridgeRule, session: Session, messageText: string) {
+    const fullSessionUserId = `${session.platform}:${session.userId}`
+    if (rule.blockedUsers?.includes(fullSessionUserId)) return true
+    if (rule.ignorePrefixes?.some(prefix => prefix && messageText.startsWith(prefix))) return true
+    return false
+  }
+
+  function hasBlockedMedia(rule: BridgeRule, session: Session) {
+    return !rule.allowMedia && session.elements?.some(el => ['img', 'image', 'video', 'audio', 'record', 'file', 'mface'].includes(el.type))
+  }
+
+  // 将被引用的消息映射为目标频道中对应的那一条，以便跨群回复
+  async function resolveQuote(sourceChannel: string, quotedId: string, targetChannel: string) {
+    const [platform, channelId] = sourceChannel.split(':')
+    // 被引用的是其他频道转发过来的副本：先找回原消息
+    const copy = await ledger.findRelayByCopy(ctx, sourceChannel, quotedId)
+    const origin = copy
+      ? { channel: `${copy.platform}:${copy.channelId}`, platform: copy.platform, channelId: copy.channelId, messageId: copy.messageId }
+      : { channel: sourceChannel, platform, channelId, messageId: quotedId }
+    if (origin.channel === targetChannel) return origin.messageId
+    const records = await ledger.findRelaysBySource(ctx, origin.platform, origin.channelId, origin.messageId)
+    return records.find(record => record.targetChannel === targetChannel)?.messageIds[0]
+  }
+
+  async function handle(session: Session) {
+    if (!config.bridgeRules?.length) return
+    if (isOwnMessage(ctx, session)) return
+    const fullSessionChannelId = `${session.platform}:${session.channelId}`
+    const rules = config.bridgeRules.filter(rule => rule.channels.some(ch => resolver.isSameChannel(ch, session.platform, session.channelId)))
+    if (!rules.length) return
+
+    const messageText = session.content ?? ''
+    const senderDisplayName = session.author?.nick || session.author?.name || session.username || session.userId
+    const quotedId = session.quote?.id
+    // 合并转发、小程序与媒体按统一管线转换，只在第一次需要时转换，结果供所有桥接与目标复用
+    let converted: Promise<ConvertedMessage>
+
+    for (const rule of rules) {
+      if (isFiltered(rule, session, messageText)) {
+        if (config.debug) logger.info(`(桥接) 消息被桥接 "${rule.name}" 的过滤条件拦截。`)
+        continue
+      }
+      if (hasBlockedMedia(rule, session)) {
+        if (config.debug) logger.info(`(桥接) 桥接 "${rule.name}" 不转发媒体消息，已跳过。`)
+        countStat(ctx, 'bridge', rule.name, 'skipped')
+        continue
+      }
+      converted ??= converter.convert(session.bot, session.elements ?? h.parse(messageText)).then((converted) => {
+        if (!converted.content.length) converted.content = [h.text(messageText)]
+        return converted
+      })
+      const { kind, content } = await converted
+      // 内容过滤：命中屏蔽词时不桥接，其余按规则替换
+      const filtered = await contentFilter.filter('bridge', rule.name, rule, session, content)
+      if (!filtered) continue
+      const targets = rule.channels.filter(ch => !resolver.isSameChannel(ch, session.platform, session.channelId))
+      const template = rule.template ?? DEFAULT_TEMPLATE
+      const templateVariables = await createTemplateVariables(session, [template], { sender: senderDisplayName }, resolver.lookup)
+      const messages = converter.render({ kind, content: filtered }, { template }, templateVariables)
+      const deliveries: RelayDelivery[] = []
+      for (const targetChannelId of targets) {
+        const delivery = resolver.createDelivery(targetChannelId, session)
+        deliveries.push(delivery)
+        try {
+          // 跨群回复的引用只加在第一条消息上
+          let quote: h[] = []
+          if (quotedId) {
+            const targetQuoteId = await resolveQuote(fullSessionChannelId, quotedId, channelKey(targetChannelId))
+            if (targetQuoteId) quote = [h.quote(targetQuoteId)]
+          }
+          for (const [index, message] of messages.entries()) {
+            const content = index ? message : [...quote, ...message]
+            delivery.messageIds.push(...await resolver.send(targetChannelId, content, session, delivery))
+          }
+          delivery.success = delivery.messageIds.length > 0
+          if (!delivery.success) delivery.error = '未返回消息ID'
+        } catch (error) {
+          logger.error(`[失败] (桥接) 转发到频道 ${targetChannelId} 时发生错误:`, error)
+          delivery.error = String(error)
+        }
+      }
+      if (config.debug) logger.info(`(桥接) "${rule.name}" 完成：成功 ${deliveries.filter(d => d.success).length}/${targets.length}`)
+      await ledger.recordRelay(ctx, {
+        ruleType: 'bridge',
+        ruleKey: rule.name,
+        platform: session.platform,
+        channelId: session.channelId,
+        messageId: session.messageId,
+        userId: session.userId,
+      }, deliveries)
+    }
+  }
+
+  return { handle }
+}
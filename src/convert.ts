@@ -0,0 +1,206 @@
+import { Bot, Context, h } from 'koishi'
+import type { Config } from './index'
+import { MediaPipeline, getMediaKind } from './media'
+import { TemplateVariables, renderTemplate } from './template'
+
+// forward = 合并转发，share = 小程序分享，file = 文件，media = 图片等媒体，text = 普通消息
+export type ConvertedKind = 'forward' | 'share' | 'file' | 'media' | 'text'
+
+export interface ConvertedMessage {
+  kind: ConvertedKind
+  // 转发内容；合并转发时为单独的 figure 元素，不能与模板拼接在同一条消息中
+  content: h[]
+}
+
+// 各类消息使用的模板；未提供的类型使用 template
+export interface ConvertTemplates {
+  template: string
+  forwardTemplate?: string
+  shareTemplate?: string
+  fileTemplate?: string
+}
+
+// 展开合并转发时的共享状态：节点总数上限对所有层级合计
+interface ExpandState {
+  nodes: number
+  omitted: number
+}
+
+// 解析小程序卡片：优先使用 qqdocurl，其次使用 url
+export function parseShare(data: string) {
+  const json = JSON.parse(data)
+  const detail = json.meta?.detail_1 ?? {}
+  const title = detail.title || '未知应用'
+  const desc = detail.desc || json.prompt || ''
+  let url = ''
+  if (detail.qqdocurl) {
+    url = detail.qqdocurl
+  } else if (detail.url) {
+    url = detail.url
+    // 如果url不是完整链接，添加协议
+    if (!url.startsWith('http')) url = 'https://' + url
+  }
+  return `【${title}】${desc}\n${url || '(未找到可用链接)'}`
+}
+
+// 消息元素转换管线：自动监控与引用转发共用，保证两条路径对合并转发、小程序与媒体的处理一致
+export function createElementConverter(ctx: Context, config: Config, media: MediaPipeline) {
+  const logger = ctx.logger('message-relay')
+
+  async function getForwardMsg(bot: Bot, forwardId: string): Promise<any[] | undefined> {
+    let forwardData: any
+    try {
+      forwardData = await bot.internal?.getForwardMsg?.(forwardId)
+    } catch (error) {
+      if (config.debug) logger.warn(`调用API失败: ${error}`)
+      return
+    }
+    if (config.debug) logger.info(`OneBot getForwardMsg 返回数据:`, JSON.stringify(forwardData, null, 2))
+    // 不同实现返回数组或 { messages: [...] }
+    const messages = Array.isArray(forwardData) ? forwardData : forwardData?.messages
+    if (!Array.isArray(messages)) {
+      if (config.debug) logger.warn(`OneBot API返回的数据不是数组格式: ${typeof forwardData}`)
+      return
+    }
+    return messages
+  }
+
+  // 回复段只带有被回复消息的 ID，在同一层合并转发中查找对应的消息作为预览
+  function describeReply(id: string, messages: any[]) {
+    const target = messages.find(message => String(message.message_id ?? message.id) === String(id))
+    if (!target) return '[回复]'
+    const nickname = target.sender?.nickname || '未知用户'
+    const text = (Array.isArray(target.content) ? target.content : [])
+      .filter(segment => segment.type === 'text')
+      .map(segment => segment.data?.text ?? '')
+      .join('')
+      .replace(/\s+/g, ' ')
+    return `[回复 ${nickname}：${text.length > 20 ? text.slice(0, 20) + '…' : text || '…'}]`
+  }
+
+  // 将 OneBot 消息段转换为消息元素；嵌套的合并转发递归展开
+  async function fromSegment(bot: Bot, segment: any, messages: any[], depth: number, state: ExpandState): Promise<h> {
+    const data = segment.data ?? {}
+    switch (segment.type) {
+      case 'text': return data.text ? h.text(data.text) : null
+      case 'image': return data.url ? h('img', { src: data.url }) : null
+      case 'video': return data.url ? h('video', { src: data.url }) : null
+      case 'at': return data.qq ? h('at', { id: data.qq, name: data.name }) : null
+      case 'face': return data.id ? h('face', { id: data.id, name: data.raw?.faceText?.replace(/^\//, '') }) : null
+      case 'mface': return h('mface', { url: data.url, summary: data.summary, id: data.emoji_id })
+      case 'record': return data.url ? h('audio', { src: data.url }) : null
+      case 'file': return data.url ? h('file', { src: data.url, name: data.name || data.file || '文件' }) : null
+      case 'reply': return h.text(describeReply(data.id, messages))
+      case 'json':
+        try {
+          return h.text(parseShare(data.data))
+        } catch {
+          return h.text('[小程序]')
+        }
+      case 'forward': {
+        if (depth >= config.forwardMaxDepth) return h.text('[合并转发]')
+        // 部分实现会直接内嵌子消息，否则需要再次调用 API 获取
+        const children = Array.isArray(data.content) ? data.content : await getForwardMsg(bot, data.id)
+        if (!children) return h.text('[合并转发]')
+        return h('figure', {}, await expand(bot, children, depth + 1, state))
+      }
+      // 其他类型的消息段
+      default: return h.text(`[${segment.type}]`)
+    }
+  }
+
+  async function expand(bot: Bot, messages: any[], depth: number, state: ExpandState): Promise<h[]> {
+    const nodes: h[] = []
+    for (const message of messages) {
+      if (state.nodes >= config.forwardMaxNodes) {
+        state.omitted++
+        continue
+      }
+      state.nodes++
+      const children: h[] = []
+      if (Array.isArray(message.content)) {
+        // 逐段处理，保证节点计数按消息顺序进行
+        for (const segment of message.content) {
+          const element = await fromSegment(bot, segment, messages, depth, state)
+          if (element) children.push(element)
+        }
+      } else if (typeof message.content === 'string') {
+        children.push(h.text(message.content))
+      } else {
+        children.push(h.text(message.message || '(无法解析的消息)'))
+      }
+      nodes.push(h('message', {
+        userId: message.sender?.user_id?.toString() || 'unknown',
+        nickname: message.sender?.nickname || '未知用户',
+      }, children))
+    }
+    return nodes
+  }
+
+  // 通过 OneBot API 获取合并转发内容，递归展开后重建为 figure
+  async function fetchForward(bot: Bot, forwardId: string): Promise<h | undefined> {
+    if (!['qq', 'onebot'].includes(bot.platform)) {
+      if (config.debug) logger.warn(`平台 ${bot.platform} 可能不支持OneBot API，尝试获取...`)
+    }
+    const messages = await getForwardMsg(bot, forwardId)
+    if (!messages) return
+    const state: ExpandState = { nodes: 0, omitted: 0 }
+    const nodes = await expand(bot, messages, 1, state)
+    if (state.omitted) {
+      nodes.push(h('message', { nickname: '传声筒' }, [h.text(`(其余 ${state.omitted} 条消息已省略)`)]))
+    }
+    if (config.debug) logger.info(`成功展开合并转发：共 ${state.nodes} 条消息，省略 ${state.omitted} 条`)
+    // 下载并内联合并转发 (包括嵌套的合并转发) 中的媒体，避免远程链接在目标平台拉取前过期
+    return h('figure', {}, await media.prepare(nodes))
+  }
+
+  async function convert(bot: Bot, elements: h[]): Promise<ConvertedMessage> {
+    elements = (elements ?? []).filter(el => el.type !== 'text' || el.attrs?.content)
+
+    const forward = elements.find(el => el.type === 'forward')
+    if (forward?.attrs?.id) {
+      if (config.debug) logger.info(`检测到forward元素，使用OneBot API获取合并转发内容...`)
+      const figure = await fetchForward(bot, forward.attrs.id)
+      if (figure) return { kind: 'forward', content: [figure] }
+    }
+
+    const share = elements.find(el => el.type === 'json')
+    if (share?.attrs?.data) {
+      try {
+        const text = parseShare(share.attrs.data)
+        if (config.debug) logger.info(`提取的链接信息: "${text}"`)
+        return { kind: 'share', content: [h.text(text)] }
+      } catch (error) {
+        if (config.debug) logger.warn(`QQ小程序链接解析失败: ${error}`)
+      }
+    }
+
+    if (elements.some(el => getMediaKind(el))) {
+      const kind = elements.some(el => el.type === 'file') ? 'file' : 'media'
+      return { kind, content: await media.prepare(elements) }
+    }
+
+    return { kind: 'text', content: elements }
+  }
+
+  // 按模板生成需要依次发送的消息；templates 为空时不显示发送者，直接发送内容
+  function render(converted: ConvertedMessage, templates: ConvertTemplates | null, variables: TemplateVariables): h[][] {
+    const { kind, content } = converted
+    if (kind === 'forward') {
+      if (!templates) return [content]
+      const header = templates.forwardTemplate
+        ? renderTemplate(templates.forwardTemplate, variables)
+        : renderTemplate(templates.template, variables, [h.text('[合并转发]')])
+      return [header, content]
+    }
+    if (!templates) return [content]
+    const template = kind === 'share' ? templates.shareTemplate
+      : kind === 'file' ? templates.fileTemplate
+      : undefined
+    return [renderTemplate(template ?? templates.template, variables, content)]
+  }
+
+  return { convert, render }
+}
+
+export type ElementConverter = ReturnType<typeof createElementConverter>
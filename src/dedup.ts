@@ -0,0 +1,107 @@
+import { Context, Time, h } from 'koishi'
+import { createHash } from 'crypto'
+import type { Config } from './index'
+import { extractPlainText, normalizeText } from './matcher'
+import { MediaPipeline, getMediaKind } from './media'
+import { RuleStore } from './rules'
+import { channelKey } from './target'
+
+export interface DedupOptions {
+  // 去重时间窗口，单位秒，0 表示不去重
+  dedupWindow: number
+  // 跳过在时间窗口内已从其他规则收到相同内容的目标频道
+  dedupAcrossRules: boolean
+}
+
+// 去重：同一规则在时间窗口内不重复转发相同内容，并可跳过已从其他规则收到相同内容的目标
+export function createDeduplicator(ctx: Context, config: Config, rules: RuleStore, media: MediaPipeline) {
+  const logger = ctx.logger('message-relay')
+  // 规则标识 → 内容指纹 → 最近一次转发的时间
+  const relayed = new Map<string, Map<string, number>>()
+  // 目标频道 → 内容指纹 → 最近一次送达的时间
+  const delivered = new Map<string, Map<string, number>>()
+
+  // 清理超出所有规则中最长时间窗口的记录
+  function sweep() {
+    const windows = [...rules.monitoringRules(), ...rules.quotedRelayRules()].map(rule => rule.dedupWindow ?? 0)
+    const expired = Date.now() - Math.max(0, ...windows) * Time.second
+    for (const store of [relayed, delivered]) {
+      for (const [key, fingerprints] of store) {
+        for (const [fingerprint, time] of fingerprints) {
+          if (time <= expired) fingerprints.delete(fingerprint)
+        }
+        if (!fingerprints.size) store.delete(key)
+      }
+    }
+  }
+
+  function touch(store: Map<string, Map<string, number>>, key: string, fingerprint: string) {
+    let fingerprints = store.get(key)
+    if (!fingerprints) store.set(key, fingerprints = new Map())
+    fingerprints.set(fingerprint, Date.now())
+  }
+
+  function within(store: Map<string, Map<string, number>>, key: string, fingerprint: string, window: number) {
+    const time = store.get(key)?.get(fingerprint)
+    return time !== undefined && Date.now() - time < window * Time.second
+  }
+
+  // 只有当前规则去重、或有规则需要按目标去重时才需要计算指纹
+  function enabled(rule: DedupOptions) {
+    if (rule.dedupWindow > 0) return true
+    return [...rules.monitoringRules(), ...rules.quotedRelayRules()].some(rule => rule.dedupAcrossRules && rule.dedupWindow > 0)
+  }
+
+  // 内容指纹：规范化后的文本加上每个媒体的内容哈希；媒体下载失败时退回使用 URL
+  async function fingerprint(elements: h[]) {
+    const text = normalizeText(extractPlainText(elements)).replace(/\s+/g, ' ').trim()
+    const parts = [text]
+    for (const element of h.select(elements, 'img,image,mface,video,audio,record,file')) {
+      const url: string = element.attrs.url || element.attrs.src
+      const resource = url ? await media.load(url, getMediaKind(element)) : undefined
+      parts.push(resource?.hash ?? url ?? element.type)
+    }
+    return createHash('sha1').update(parts.join('\n')).digest('hex')
+  }
+
+  // 检查并登记一次转发；时间窗口内已转发过相同内容时返回 false
+  function claim(ruleKey: string, fingerprint: string, rule: DedupOptions) {
+    if (!fingerprint || !rule.dedupWindow) return true
+    sweep()
+    if (within(relayed, ruleKey, fingerprint, rule.dedupWindow)) {
+      if (config.debug) logger.info(`(去重) 规则 ${ruleKey} 在 ${rule.dedupWindow} 秒内已转发过相同内容，已跳过。`)
+      return false
+    }
+    touch(relayed, ruleKey, fingerprint)
+    return true
+  }
+
+  // 转发全部失败时撤销登记，以免在时间窗口内无法再次转发
+  function release(ruleKey: string, fingerprint: string) {
+    relayed.get(ruleKey)?.delete(fingerprint)
+  }
+
+  // 过滤掉时间窗口内已收到相同内容的目标频道
+  function filterTargets(targets: string[], fingerprint: string, rule: DedupOptions) {
+    if (!fingerprint || !rule.dedupAcrossRules || !rule.dedupWindow) return targets
+    return targets.filter((target) => {
+      if (!within(delivered, channelKey(target), fingerprint, rule.dedupWindow)) return true
+      if (config.debug) logger.info(`(去重) 频道 ${target} 在 ${rule.dedupWindow} 秒内已收到相同内容，已跳过。`)
+      return false
+    })
+  }
+
+  function markDelivered(target: string, fingerprint: string) {
+    if (!fingerprint) return
+    touch(delivered, channelKey(target), fingerprint)
+  }
+
+  ctx.on('dispose', () => {
+    relayed.clear()
+    delivered.clear()
+  })
+
+  return { enabled, fingerprint, claim, release, filterTargets, markDelivered }
+}
+
+export type Deduplicator = ReturnType<typeof createDeduplicator>
@@ -0,0 +1,181 @@
+import { Context, Session, Time, h } from 'koishi'
+import type { Config } from './index'
+import * as ledger from './ledger'
+import { RelayDelivery } from './ledger'
+import { ElementConverter } from './convert'
+import { ContentFilter } from './filter'
+import { MediaPipeline } from './media'
+import { MonitoringRule, RuleStore } from './rules'
+import { TargetResolver, adaptElements } from './target'
+
+declare module 'koishi' {
+  interface Tables {
+    message_relay_digest: DigestEntry
+  }
+}
+
+// 摘要缓冲区中的一条消息
+export interface DigestEntry {
+  id: number
+  // 所属监控规则的 userId
+  ruleKey: string
+  platform: string
+  channelId: string
+  messageId: string
+  userId: string
+  // 发送者显示名称
+  sender: string
+  // 经过转换与内容过滤的消息元素，序列化为字符串；媒体保留原始地址，在汇总发送时再下载
+  content: string
+  createdAt: Date
+}
+
+// 摘要模式：缓冲匹配到的消息，按时间窗口或条数阈值汇总为一条合并转发发送到每个目标频道
+export function createDigest(ctx: Context, config: Config, rules: RuleStore, resolver: TargetResolver, media: MediaPipeline, converter: ElementConverter, contentFilter: ContentFilter) {
+  const logger = ctx.logger('message-relay')
+  const buffers = new Map<string, DigestEntry[]>()
+  const flushing = new Set<string>()
+  // 未启用数据库时使用的本地编号
+  let localId = 0
+
+  function findRule(ruleKey: string) {
+    return rules.monitoringRules().find(rule => rule.userId === ruleKey && rule.digestMode)
+  }
+
+  // 合并转发与小程序在缓冲时即按统一管线转换并经过内容过滤；被拦截时返回 false
+  async function add(rule: MonitoringRule, session: Session, sender: string) {
+    const converted = await converter.convert(session.bot, session.elements ?? h.parse(session.content ?? ''))
+    if (!converted.content.length) converted.content = [h.text(session.content ?? '')]
+    const elements = await contentFilter.filter('monitor', rule.userId, rule, session, converted.content)
+    if (!elements) return false
+    const data = {
+      ruleKey: rule.userId,
+      platform: session.platform,
+      channelId: session.channelId,
+      messageId: session.messageId ?? '',
+      userId: session.userId,
+      sender,
+      content: media.restore(elements).join(''),
+      createdAt: new Date(session.timestamp || Date.now()),
+    }
+    let entry: DigestEntry
+    try {
+      entry = ctx.database ? await ctx.database.create('message_relay_digest', data) : { id: --localId, ...data }
+    } catch (error) {
+      logger.warn('写入摘要缓冲区失败，仅保存在内存中:', error)
+      entry = { id: --localId, ...data }
+    }
+    let buffer = buffers.get(rule.userId)
+    if (!buffer) buffers.set(rule.userId, buffer = [])
+    buffer.push(entry)
+    if (config.debug) logger.info(`(摘要) 规则 (用户: ${rule.userId}) 已缓冲 ${buffer.length}/${rule.digestMaxCount} 条消息。`)
+    if (buffer.length >= rule.digestMaxCount) await flush(rule.userId)
+    return true
+  }
+
+  async function buildFigure(entries: DigestEntry[], target: string) {
+    const { platform } = resolver.parse(target)
+    const nodes = await Promise.all(entries.map(async (entry) => {
+      const time = Time.template('yyyy-MM-dd hh:mm:ss', entry.createdAt)
+      const content = adaptElements(await media.prepare(h.parse(entry.content)), entry.platform, platform)
+      return h('message', { userId: entry.userId, nickname: entry.sender }, [h.text(`[${time}]\n`), ...content])
+    }))
+    return h('figure', {}, nodes)
+  }
+
+  async function flush(ruleKey: string) {
+    if (flushing.has(ruleKey)) return
+    const entries = buffers.get(ruleKey)
+    if (!entries?.length) return
+    flushing.add(ruleKey)
+    buffers.delete(ruleKey)
+    try {
+      const rule = findRule(ruleKey)
+      if (!rule) {
+        if (config.debug) logger.info(`(摘要) 规则 (用户: ${ruleKey}) 已不再启用摘要模式，丢弃 ${entries.length} 条缓冲消息。`)
+        return
+      }
+      const deliveries: RelayDelivery[] = []
+      for (const target of rule.relayTargetChannels) {
+        // 不把消息汇总回它的来源频道
+        const items = entries.filter(entry => !resolver.isSameChannel(target, entry.platform, entry.channelId))
+        if (!items.length) continue
+        const delivery = resolver.createDelivery(target)
+        deliveries.push(delivery)
+        try {
+          delivery.messageIds = await resolver.send(target, await buildFigure(items, target), undefined, delivery)
+          delivery.success = delivery.messageIds.length > 0
+          if (!delivery.success) delivery.error = '未返回消息ID'
+        } catch (error) {
+          logger.error(`[失败] (摘要) 发送到频道 ${target} 时发生错误:`, error)
+          delivery.error = String(error)
+        }
+      }
+      if (config.debug) logger.info(`(摘要) 规则 (用户: ${ruleKey}) 已汇总 ${entries.length} 条消息：成功 ${deliveries.filter(d => d.success).length}/${deliveries.length}`)
+      const [first] = entries
+      await ledger.recordRelay(ctx, {
+        ruleType: 'digest',
+        ruleKey,
+        platform: first.platform,
+        channelId: first.channelId,
+        // 汇总消息不对应单条源消息，不参与撤回/编辑同步
+        messageId: '',
+        userId: first.userId,
+      }, deliveries)
+    } finally {
+      flushing.delete(ruleKey)
+      if (ctx.database) {
+        await ctx.database.remove('message_relay_digest', { id: entries.map(entry => entry.id).filter(id => id > 0) })
+          .catch(error => logger.warn('清理摘要缓冲区失败:', error))
+      }
+    }
+  }
+
+  // 按时间窗口检查：缓冲区中最早的消息超过 digestInterval 时发送
+  async function tick() {
+    const now = Date.now()
+    for (const [ruleKey, entries] of [...buffers]) {
+      const rule = findRule(ruleKey)
+      if (!rule || now - entries[0].createdAt.getTime() >= rule.digestInterval * Time.second) {
+        await flush(ruleKey)
+      }
+    }
+  }
+
+  ctx.inject(['database'], (ctx) => {
+    ctx.model.extend('message_relay_digest', {
+      id: 'unsigned',
+      ruleKey: 'string(255)',
+      platform: 'string(64)',
+      channelId: 'string(255)',
+      messageId: 'string(255)',
+      userId: 'string(255)',
+      sender: 'string(255)',
+      content: 'text',
+      createdAt: 'timestamp',
+    }, {
+      autoInc: true,
+    })
+
+    // 插件重启后恢复尚未发送的缓冲消息
+    ctx.on('ready', async () => {
+      try {
+        const rows = await ctx.database.get('message_relay_digest', {}, { sort: { id: 'asc' } })
+        for (const row of rows) {
+          let buffer = buffers.get(row.ruleKey)
+          if (!buffer) buffers.set(row.ruleKey, buffer = [])
+          if (!buffer.some(entry => entry.id === row.id)) buffer.push(row)
+        }
+        if (config.debug && rows.length) logger.info(`(摘要) 已从数据库恢复 ${rows.length} 条缓冲消息。`)
+      } catch (error) {
+        logger.warn('恢复摘要缓冲区失败:', error)
+      }
+    })
+  })
+
+  ctx.setInterval(tick, 5 * Time.second)
+
+  return { add, flush }
+}
+
+export type Digest = ReturnType<typeof createDigest>
@@ -0,0 +1,229 @@
+import { Context, Schema, Session, Time, h } from 'koishi'
+import type { Config } from './index'
+import { RelayRuleType } from './ledger'
+import { extractPlainText, normalizeText } from './matcher'
+import { countStat } from './stats'
+
+declare module 'koishi' {
+  interface Tables {
+    message_relay_filter_log: FilterLog
+  }
+}
+
+// keep = 保留链接，strip = 移除所有链接，whitelist = 只保留白名单域名的链接
+export type UrlPolicy = 'keep' | 'strip' | 'whitelist'
+
+export const UrlPolicy: Schema<UrlPolicy> = Schema.union([
+  Schema.const('keep').description('保留'),
+  Schema.const('strip').description('全部移除'),
+  Schema.const('whitelist').description('仅保留白名单'),
+]).default('keep')
+
+export interface ContentFilterOptions {
+  // 包含这些词的消息不转发
+  blockedWords: string[]
+  // 这些词替换为等长的 *
+  maskedWords: string[]
+  urlPolicy: UrlPolicy
+  // urlPolicy 为 whitelist 时允许的域名，包含其子域名
+  urlWhitelist: string[]
+  // 匹配这些正则表达式的内容替换为 [已屏蔽]
+  redactPatterns: string[]
+}
+
+// 监控规则、引用转发与双向桥接共用的内容过滤字段
+export const ContentFilterOptions: Schema<ContentFilterOptions> = Schema.object({
+  blockedWords: Schema.array(Schema.string()).default([]).description('包含这些词的消息不转发 (忽略大小写与全角/半角差异)。'),
+  maskedWords: Schema.array(Schema.string()).default([]).description('转发时将这些词替换为等长的 *。'),
+  urlPolicy: UrlPolicy.description('转发内容中链接的处理方式。'),
+  urlWhitelist: Schema.array(Schema.string()).default([]).description('链接处理方式为「仅保留白名单」时允许的域名 (包含子域名)，如 example.com。'),
+  redactPatterns: Schema.array(Schema.string()).default([]).description('匹配这些正则表达式的内容替换为 [已屏蔽]，如手机号 1[3-9]\\d{9}。'),
+})
+
+// blocked = 整条消息被拦截，redacted = 部分内容被替换
+export type FilterAction = 'blocked' | 'redacted'
+
+// 内容过滤日志：记录每次拦截或替换，供审核人员查看
+export interface FilterLog {
+  id: number
+  ruleType: RelayRuleType
+  ruleKey: string
+  platform: string
+  channelId: string
+  userId: string
+  action: FilterAction
+  detail: string
+  createdAt: Date
+}
+
+export interface FilterResult {
+  // 命中的屏蔽词；存在时整条消息不转发
+  blocked?: string
+  elements: h[]
+  // 替换的内容说明，用于日志
+  changes: string[]
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'，。！？、]+/gi
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function compilePattern(pattern: string) {
+  const capture = /^\/(.+)\/([a-z]*)$/.exec(pattern)
+  const [source, flags] = capture ? [capture[1], capture[2]] : [pattern, 'i']
+  return new RegExp(source, flags.includes('g') ? flags : flags + 'g')
+}
+
+// 编译正则替换规则；语法错误时抛出异常，由调用方在加载配置或添加规则时拒绝
+export function compileRedactPatterns(patterns: string[] = []) {
+  return patterns.map((pattern) => {
+    try {
+      return compilePattern(pattern)
+    } catch (error) {
+      throw new Error(`正则表达式 "${pattern}" 无效：${error.message}`)
+    }
+  })
+}
+
+// 编译后的正则替换规则按过滤配置缓存，避免每条消息重新编译
+const redactMatchers = new WeakMap<ContentFilterOptions, RegExp[]>()
+function getRedactPatterns(options: ContentFilterOptions) {
+  let patterns = redactMatchers.get(options)
+  if (!patterns) {
+    patterns = compileRedactPatterns(options.redactPatterns)
+    redactMatchers.set(options, patterns)
+  }
+  return patterns
+}
+
+function isWhitelisted(url: string, whitelist: string[]) {
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname.toLowerCase()
+  } catch {
+    return false
+  }
+  return whitelist.some((domain) => {
+    domain = domain.trim().toLowerCase().replace(/^\*?\./, '')
+    return hostname === domain || hostname.endsWith('.' + domain)
+  })
+}
+
+// 对消息元素中的文本做过滤与替换，嵌套的合并转发节点同样处理；正则表达式已在加载规则时校验
+export function applyContentFilter(options: ContentFilterOptions, elements: h[]): FilterResult {
+  const text = normalizeText(extractPlainText(elements))
+  const blocked = options.blockedWords?.find(word => word && text.includes(normalizeText(word)))
+  if (blocked) return { blocked, elements, changes: [] }
+
+  const changes: string[] = []
+  const replacers: ((content: string) => string)[] = []
+  for (const word of options.maskedWords ?? []) {
+    if (!word) continue
+    const pattern = new RegExp(escapeRegExp(word), 'gi')
+    replacers.push(content => content.replace(pattern, (match) => {
+      changes.push(`屏蔽词「${match}」`)
+      return '*'.repeat(match.length)
+    }))
+  }
+  if (options.urlPolicy && options.urlPolicy !== 'keep') {
+    replacers.push(content => content.replace(URL_PATTERN, (url) => {
+      if (options.urlPolicy === 'whitelist' && isWhitelisted(url, options.urlWhitelist ?? [])) return url
+      changes.push(`链接 ${url}`)
+      return '[链接已移除]'
+    }))
+  }
+  getRedactPatterns(options).forEach((pattern, index) => {
+    replacers.push(content => content.replace(pattern, (match) => {
+      if (!match) return match
+      changes.push(`正则 ${options.redactPatterns[index]} 匹配「${match}」`)
+      return '[已屏蔽]'
+    }))
+  })
+  if (!replacers.length) return { elements, changes }
+
+  function transform(elements: h[]): h[] {
+    return elements.map((element) => {
+      if (element.type === 'text') {
+        const content = replacers.reduce((content, replace) => replace(content), element.attrs.content ?? '')
+        return h.text(content)
+      }
+      if (!element.children?.length) return element
+      return h(element.type, element.attrs, transform(element.children))
+    })
+  }
+  return { elements: transform(elements), changes }
+}
+
+// 各转发路径共用的过滤阶段：拦截或替换内容并记录日志
+export function createContentFilter(ctx: Context, config: Config) {
+  const logger = ctx.logger('message-relay')
+
+  async function log(ruleType: RelayRuleType, ruleKey: string, session: Session, action: FilterAction, detail: string) {
+    logger.info(`(内容过滤) [${ruleType}] ${ruleKey}：用户 ${session.platform}:${session.userId} 在 ${session.platform}:${session.channelId} 的消息${action === 'blocked' ? '被拦截' : '已替换'}，${detail}`)
+    countStat(ctx, ruleType, ruleKey, action)
+    if (!ctx.database) return
+    try {
+      await ctx.database.create('message_relay_filter_log', {
+        ruleType,
+        ruleKey,
+        platform: session.platform,
+        channelId: session.channelId ?? '',
+        userId: session.userId,
+        action,
+        detail,
+        createdAt: new Date(),
+      })
+    } catch (error) {
+      logger.warn('写入内容过滤日志失败:', error)
+    }
+  }
+
+  // 返回过滤后的元素；消息被拦截时返回 undefined
+  async function filter(ruleType: RelayRuleType, ruleKey: string, options: ContentFilterOptions, session: Session, elements: h[]) {
+    const result = applyContentFilter(options, elements)
+    if (result.blocked) {
+      await log(ruleType, ruleKey, session, 'blocked', `命中屏蔽词「${result.blocked}」`)
+      return
+    }
+    if (result.changes.length) {
+      await log(ruleType, ruleKey, session, 'redacted', result.changes.join('；'))
+    }
+    return result.elements
+  }
+
+  ctx.inject(['database'], (ctx) => {
+    ctx.model.extend('message_relay_filter_log', {
+      id: 'unsigned',
+      ruleType: 'string(16)',
+      ruleKey: 'string(255)',
+      platform: 'string(64)',
+      channelId: 'string(255)',
+      userId: 'string(255)',
+      action: 'string(16)',
+      detail: 'text',
+      createdAt: 'timestamp',
+    }, {
+      autoInc: true,
+    })
+
+    ctx.command('传声筒.filterlog [count:posint]', '查看最近的内容过滤记录', { authority: config.ruleCommandAuthLevel })
+      .action(async (_, count = 10) => {
+        const logs = await ctx.database.get('message_relay_filter_log', {}, {
+          sort: { id: 'desc' },
+          limit: Math.min(count, 50),
+        })
+        if (!logs.length) return '暂无内容过滤记录。'
+        return `最近 ${logs.length} 条内容过滤记录：\n${logs.map((log) => {
+          const time = Time.template('yyyy-MM-dd hh:mm:ss', log.createdAt)
+          const action = log.action === 'blocked' ? '拦截' : '替换'
+          return `#${log.id} ${time} [${action}] ${log.ruleType}:${log.ruleKey}\n  ${log.platform}:${log.userId} 在 ${log.platform}:${log.channelId}：${log.detail}`
+        }).join('\n')}`
+      })
+  })
+
+  return { filter }
+}
+
+export type ContentFilter = ReturnType<typeof createContentFilter>
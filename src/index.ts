@@ -1,4 +1,25 @@
-import { Context, Schema, h } from 'koishi'
+import { Command, Context, Schema, Session, Time, h } from 'koishi'
+import * as ledger from './ledger'
+import { RelayDelivery } from './ledger'
+import { applySync } from './sync'
+import { BridgeRule, createBridge, isOwnMessage } from './bridge'
+import { createReplyRelay } from './reply'
+import { KeywordMatcher, compileKeywords } from './matcher'
+import { MonitoringRule, QuotedRelayRule, createRuleStore, registerRuleCommands } from './rules'
+import { DEFAULT_TEMPLATE, createTemplateVariables, renderTemplate } from './template'
+import { adaptElements, channelKey, createTargetResolver } from './target'
+import { MediaFallback, createMediaPipeline } from './media'
+import { createSendQueue } from './queue'
+import { applyOutbox } from './outbox'
+import { createDeduplicator } from './dedup'
+import { applyStats, countStat } from './stats'
+import { createElementConverter } from './convert'
+import { createDigest } from './digest'
+import { createScheduler, parseSendTime } from './schedule'
+import { AccessOptions, createAccessControl } from './access'
+import { ApprovalPayload, createApproval } from './approval'
+import { ContentFilterOptions, UrlPolicy, applyContentFilter, compileRedactPatterns, createContentFilter } from './filter'
+import { createLookupCache } from './lookup'
 
 export const name = 'message-relay'
 
@@ -6,56 +27,138 @@ export const inject = {
   optional: ['database'],
 }
 
-interface MonitoringRule {
-  userId: string
-  keywords: string[]
-  relayTargetChannels: string[]
-}
-
-interface QuotedRelayRule {
-  commandName: string
-  targetChannels: string[]
-  excludeSource: boolean
-  showSuccessMessage: boolean
-  showOriginalSender: boolean
+// 传话筒的命名群组：一次传话到多个群聊
+export interface ManualRelayGroup {
+  name: string
+  channels: string[]
 }
 
 export interface Config {
   monitoringRules: MonitoringRule[]
+  bridgeRules: BridgeRule[]
   manualRelayAllowedChannels: string[]
+  manualRelayGroups: ManualRelayGroup[]
+  manualRelayAllowedSourceChannels: string[]
+  manualRelayAllowedUsers: string[]
+  manualRelayDeniedUsers: string[]
+  manualRelayCooldown: number
+  manualRelayRequireApproval: boolean
+  manualRelayBlockedWords: string[]
+  manualRelayMaskedWords: string[]
+  manualRelayUrlPolicy: UrlPolicy
+  manualRelayUrlWhitelist: string[]
+  manualRelayRedactPatterns: string[]
   commandAuthLevel: number
   defaultPlatform: string
+  manualRelayTemplate: string
   debug: boolean
   // 引用转发设置
   quotedRelayEnabled: boolean
   quotedRelayAuthLevel: number
   quotedRelayRules: QuotedRelayRule[]
+  ruleCommandAuthLevel: number
+  // 媒体设置
+  mediaImageMaxSize: number
+  mediaImageTimeout: number
+  mediaVideoMaxSize: number
+  mediaVideoTimeout: number
+  mediaAudioMaxSize: number
+  mediaAudioTimeout: number
+  mediaFileMaxSize: number
+  mediaFileTimeout: number
+  mediaConcurrency: number
+  mediaCacheTTL: number
+  mediaCacheMaxSize: number
+  mediaFallback: MediaFallback
+  forwardMaxDepth: number
+  forwardMaxNodes: number
+  // 发送队列设置
+  targetSendInterval: number
+  globalSendInterval: number
+  sendJitter: number
+  retryLimit: number
+  retryBaseDelay: number
+  // 审核设置
+  moderationChannel: string
+  approvalAuthLevel: number
+  approvalTimeout: number
+  lookupCacheTTL: number
 }
 export const Config = Schema.intersect([
   Schema.object({
-    monitoringRules: Schema.array(Schema.object({
-      userId: Schema.string().description('被监控用户的完整 ID (需要带平台前缀，如 onebot:12345678)。'),
-      keywords: Schema.array(Schema.string()).description('触发转发的关键词列表 (留空则转发该用户所有消息)。'),
-      relayTargetChannels: Schema.array(Schema.string()).role('channel').description('该用户消息的目标转发频道列表 (需要带平台前缀，如 onebot:12345678)。'),
-    })).role('table').description('用户监控规则列表。'),
+    monitoringRules: Schema.array(MonitoringRule).role('table').description('用户监控规则列表。'),
   }).description('监控规则设置'),
+  Schema.object({
+    bridgeRules: Schema.array(Schema.intersect([Schema.object({
+      name: Schema.string().required().description('桥接名称 (用于日志与转发记录)。'),
+      channels: Schema.array(Schema.string()).role('channel').description('互相桥接的频道列表 (需要带平台前缀，如 onebot:12345678)。'),
+      blockedUsers: Schema.array(Schema.string()).default([]).description('不参与桥接的用户 ID 列表 (需要带平台前缀)。'),
+      ignorePrefixes: Schema.array(Schema.string()).default([]).description('以这些前缀开头的消息不参与桥接 (如指令前缀)。'),
+      allowMedia: Schema.boolean().default(true).description('是否桥接包含图片、视频等媒体的消息。'),
+      syncRecall: Schema.boolean().default(false).description('消息撤回时，同步撤回其他频道中的副本 (需要数据库)。'),
+      syncEdit: Schema.boolean().default(false).description('消息编辑时，同步更新其他频道中的副本 (需要数据库)。'),
+      template: Schema.string().role('textarea').default(DEFAULT_TEMPLATE).description('桥接消息模板，可用占位符见文档。'),
+    }), ContentFilterOptions])).default([]).description('双向桥接规则列表：成员频道中的每条消息都会同步到其他成员频道。'),
+  }).description('双向桥接设置'),
   Schema.object({
     manualRelayAllowedChannels: Schema.array(Schema.string()).role('channel').default([]).description('允许「传话筒」指令手动转发的群组列表 (需要带平台前缀，如 onebot:12345678)。'),
+    manualRelayGroups: Schema.array(Schema.object({
+      name: Schema.string().required().description('群组名称，可作为「传话筒」的目标使用 (如 全部、技术群)。'),
+      channels: Schema.array(Schema.string()).role('channel').default([]).description('群组包含的群聊，可以是序号、群名称或群号，且必须在允许列表中。'),
+    })).default([]).description('「传话筒」的命名群组：以群组名称为目标时，发送到其中的所有群聊。'),
+    manualRelayAllowedSourceChannels: Schema.array(Schema.string()).role('channel').default([]).description('只能在这些群聊中使用「传话筒」指令 (留空则不限制，设置后不能在私聊中使用)。'),
+    manualRelayAllowedUsers: Schema.array(Schema.string()).default([]).description('只有这些用户可以使用「传话筒」指令 (需要带平台前缀，留空则不限制)。'),
+    manualRelayDeniedUsers: Schema.array(Schema.string()).default([]).description('禁止这些用户使用「传话筒」指令 (需要带平台前缀)，优先于允许列表。'),
+    manualRelayCooldown: Schema.number().min(0).default(0).description('同一用户两次使用「传话筒」指令的最小间隔，单位秒，0 表示不限制。'),
+    manualRelayRequireApproval: Schema.boolean().default(false).description('「传话筒」的消息需要在审核频道中通过审核后才发送 (需要数据库)。'),
+    manualRelayBlockedWords: Schema.array(Schema.string()).default([]).description('包含这些词的「传话筒」消息不发送 (忽略大小写与全角/半角差异)。'),
+    manualRelayMaskedWords: Schema.array(Schema.string()).default([]).description('「传话筒」发送时将这些词替换为等长的 *。'),
+    manualRelayUrlPolicy: UrlPolicy.description('「传话筒」消息中链接的处理方式。'),
+    manualRelayUrlWhitelist: Schema.array(Schema.string()).default([]).description('链接处理方式为「仅保留白名单」时允许的域名 (包含子域名)，如 example.com。'),
+    manualRelayRedactPatterns: Schema.array(Schema.string()).default([]).description('匹配这些正则表达式的内容替换为 [已屏蔽]。'),
     commandAuthLevel: Schema.number().min(0).max(5).default(3).description('能够使用「传话筒」指令的最低权限等级。'),
     defaultPlatform: Schema.string().default('onebot').description('手动传话时，默认使用的平台名称。'),
+    manualRelayTemplate: Schema.string().role('textarea').default('[传话筒 | 来自: {sender}] \n{content}').description('「传话筒」消息模板，可用占位符见文档。'),
   }).description('手动指令设置'),
   Schema.object({
     quotedRelayEnabled: Schema.boolean().default(false).description('是否启用引用转发功能。'),
     quotedRelayAuthLevel: Schema.number().min(0).max(5).default(3).description('能够使用引用转发指令的最低权限等级。'),
-    quotedRelayRules: Schema.array(Schema.object({
-      commandName: Schema.string().description('指令名称。'),
-      targetChannels: Schema.array(Schema.string()).role('channel').description('该指令对应的目标群组列表 (需要带平台前缀，如 onebot:12345678)。'),
-      excludeSource: Schema.boolean().default(true).description('是否排除消息来源群聊（避免转发回同一群）。'),
-      showSuccessMessage: Schema.boolean().default(true).description('转发完成后是否发送转发成功消息。'),
-      showOriginalSender: Schema.boolean().default(true).description('是否显示原消息发送者的昵称。'),
-    })).role('table').default([]).description('引用转发指令规则列表。'),
+    quotedRelayRules: Schema.array(QuotedRelayRule).role('table').default([]).description('引用转发指令规则列表。'),
   }).description('引用转发设置'),
   Schema.object({
+    mediaImageMaxSize: Schema.number().min(0).default(10).description('图片 (含表情包) 的大小上限，单位 MB，0 表示不限制。'),
+    mediaImageTimeout: Schema.number().min(0).default(15000).description('图片下载超时时间，单位毫秒。'),
+    mediaVideoMaxSize: Schema.number().min(0).default(50).description('视频的大小上限，单位 MB，0 表示不限制。'),
+    mediaVideoTimeout: Schema.number().min(0).default(60000).description('视频下载超时时间，单位毫秒。'),
+    mediaAudioMaxSize: Schema.number().min(0).default(10).description('语音的大小上限，单位 MB，0 表示不限制。'),
+    mediaAudioTimeout: Schema.number().min(0).default(30000).description('语音下载超时时间，单位毫秒。'),
+    mediaFileMaxSize: Schema.number().min(0).default(30).description('文件的大小上限，单位 MB，0 表示不限制。超出上限的文件只转发文件信息。'),
+    mediaFileTimeout: Schema.number().min(0).default(120000).description('文件下载超时时间，单位毫秒。'),
+    mediaConcurrency: Schema.number().min(1).default(3).description('同时进行的媒体下载数量上限。'),
+    mediaCacheTTL: Schema.number().min(0).default(600).description('已下载媒体的缓存时间，单位秒。'),
+    mediaCacheMaxSize: Schema.number().min(0).default(200).description('已下载媒体的缓存总大小上限，单位 MB，超出时淘汰最久未使用的媒体，0 表示不限制。'),
+    mediaFallback: Schema.union([
+      Schema.const('placeholder').description('占位文本'),
+      Schema.const('link').description('占位文本与原链接'),
+    ]).default('placeholder').description('媒体下载失败、超出限制或目标平台拒收时的替代内容。'),
+    forwardMaxDepth: Schema.number().min(1).default(3).description('展开嵌套合并转发的最大层数，超出的层级显示为 [合并转发]。'),
+    forwardMaxNodes: Schema.number().min(1).default(100).description('展开合并转发时最多保留的消息条数 (所有层级合计)。'),
+  }).description('媒体设置'),
+  Schema.object({
+    targetSendInterval: Schema.number().min(0).default(1500).description('向同一频道连续发送消息的最小间隔，单位毫秒。'),
+    globalSendInterval: Schema.number().min(0).default(500).description('所有频道之间连续发送消息的最小间隔，单位毫秒。'),
+    sendJitter: Schema.number().min(0).default(800).description('每次发送前额外等待的随机时间上限，单位毫秒，用于降低被风控的概率。'),
+    retryLimit: Schema.number().min(0).default(5).description('转发失败后的最大重试次数 (需要数据库)。达到上限的转发会转入死信队列，可通过「传声筒.outbox」指令手动处理。'),
+    retryBaseDelay: Schema.number().min(1).default(30).description('首次重试前的等待时间，单位秒。此后每次失败等待时间翻倍。'),
+  }).description('发送队列设置'),
+  Schema.object({
+    moderationChannel: Schema.string().role('channel').description('接收待审核转发预览的频道 (需要带平台前缀，如 onebot:12345678)。'),
+    approvalAuthLevel: Schema.number().min(0).max(5).default(3).description('能够审核转发的最低权限等级。'),
+    approvalTimeout: Schema.number().min(60).default(86400).description('待审核的转发超过该时间未处理时自动取消，单位秒。'),
+  }).description('审核设置'),
+  Schema.object({
+    ruleCommandAuthLevel: Schema.number().min(0).max(5).default(3).description('能够使用「传声筒.rule」系列指令管理规则的最低权限等级。'),
+    lookupCacheTTL: Schema.number().min(0).default(300).description('群成员昵称与群信息的缓存时间，单位秒，0 表示不缓存。成员或群信息变化时会自动刷新。'),
     debug: Schema.boolean().default(false).description('启用后，将在控制台输出详细的调试日志。'),
   }).description('高级设置'),
 ])
@@ -64,58 +167,74 @@ export function apply(ctx: Context, config: Config) {
   const logger = ctx.logger('message-relay')
   logger.info('传声筒插件已启动。')
 
-  // MIME类型检测函数
-  function getMimeType(buffer: Buffer): string {
-    if (buffer.length < 4) return 'application/octet-stream'
-    
-    const header = buffer.toString('hex', 0, 4)
-    if (header.startsWith('89504e47')) return 'image/png'
-    if (header.startsWith('ffd8ff')) return 'image/jpeg'
-    if (header.startsWith('47494638')) return 'image/gif'
-    if (buffer.toString('ascii', 0, 4) === 'RIFF') return 'image/webp'
-    
-    // 视频格式检测
-    if (header.startsWith('00000020') || header.startsWith('00000018')) return 'video/mp4'
-    if (header.startsWith('1a45dfa3')) return 'video/webm'
-    
-    // 音频格式检测
-    if (header.startsWith('494433') || header.startsWith('fff3') || header.startsWith('fff2')) return 'audio/mpeg'
-    if (header.startsWith('4f676753')) return 'audio/ogg'
-    
-    return 'application/octet-stream'
+  // 关键词在加载配置时统一编译，语法错误直接拒绝启动
+  const keywordMatchers = new WeakMap<MonitoringRule, KeywordMatcher>()
+  function getKeywordMatcher(rule: MonitoringRule) {
+    let matcher = keywordMatchers.get(rule)
+    if (!matcher) {
+      matcher = compileKeywords(rule.keywords, { scope: rule.keywordScope ?? 'text', loose: !!rule.looseMatch })
+      keywordMatchers.set(rule, matcher)
+    }
+    return matcher
   }
-
-  // 元素检查函数
-  function hasFileElement(elements: any[]): boolean {
-    if (!Array.isArray(elements)) return false
-    return elements.some(el => {
-      const type = el?.type || el?.name
-      return type === 'file'
-    })
+  for (const rule of config.monitoringRules) {
+    try {
+      getKeywordMatcher(rule)
+    } catch (error) {
+      throw new Error(`监控规则 (用户: ${rule.userId}) 的关键词配置无效：${error.message}`)
+    }
   }
-
-  function hasAudioElement(elements: any[]): boolean {
-    if (!Array.isArray(elements)) return false
-    return elements.some(el => {
-      const type = el?.type || el?.name
-      return ['audio', 'record'].includes(type)
-    })
+  // 内容过滤的正则替换同样在加载配置时编译，语法错误直接拒绝启动
+  const redactPatternSources: [string, string[]][] = [
+    ...config.monitoringRules.map((rule): [string, string[]] => [`监控规则 (用户: ${rule.userId})`, rule.redactPatterns]),
+    ...config.quotedRelayRules.map((rule): [string, string[]] => [`引用转发规则「${rule.commandName}」`, rule.redactPatterns]),
+    ...config.bridgeRules.map((rule): [string, string[]] => [`桥接规则「${rule.name}」`, rule.redactPatterns]),
+    ['「传话筒」', config.manualRelayRedactPatterns],
+  ]
+  for (const [label, patterns] of redactPatternSources) {
+    try {
+      compileRedactPatterns(patterns)
+    } catch (error) {
+      throw new Error(`${label} 的正则替换配置无效：${error.message}`)
+    }
   }
 
-  function hasMfaceElement(elements: any[]): boolean {
-    if (!Array.isArray(elements)) return false
-    return elements.some(el => {
-      const type = el?.type || el?.name
-      return type === 'mface'
+  ctx.plugin(ledger)
+  const rules = createRuleStore(ctx, config)
+  const media = createMediaPipeline(ctx, config)
+  const queue = createSendQueue(ctx, config)
+  const lookup = createLookupCache(ctx, config)
+  const resolver = createTargetResolver(ctx, config, media, queue, lookup)
+  const dedup = createDeduplicator(ctx, config, rules, media)
+  const converter = createElementConverter(ctx, config, media)
+  const scheduler = createScheduler(ctx, config, resolver)
+  const access = createAccessControl(ctx, config)
+  const approval = createApproval(ctx, config, resolver, media)
+  const contentFilter = createContentFilter(ctx, config)
+  const digest = createDigest(ctx, config, rules, resolver, media, converter, contentFilter)
+  registerRuleCommands(ctx, config, rules)
+  applySync(ctx, config, rules, resolver, converter, contentFilter)
+  applyOutbox(ctx, config, resolver, media)
+  applyStats(ctx, config)
+
+  // 发送者匹配：支持完整 ID、逗号分隔的多个 ID、* (所有人) 与 platform:* (某平台的所有人)
+  function matchesSender(rule: MonitoringRule, session: Session): boolean {
+    const fullSessionUserId = `${session.platform}:${session.userId}`
+    return rule.userId.split(/[,，]/).some(pattern => {
+      pattern = pattern.trim()
+      if (pattern === '*') return true
+      if (pattern.endsWith(':*')) return pattern.slice(0, -2) === session.platform
+      return pattern === fullSessionUserId
     })
   }
 
-  function hasMediaElement(elements: any[]): boolean {
-    if (!Array.isArray(elements)) return false
-    return elements.some(el => {
-      const type = el?.type || el?.name
-      return ['img', 'image', 'video'].includes(type) // 移除 audio 和 record
-    })
+  // 来源匹配：私聊开关与来源频道的允许/排除列表
+  function matchesSource(rule: MonitoringRule, session: Session): boolean {
+    if (session.isDirect) return rule.allowPrivate ?? true
+    const fullSessionChannelId = `${session.platform}:${session.channelId}`
+    if (rule.excludedSourceChannels?.includes(fullSessionChannelId)) return false
+    if (rule.sourceChannels?.length && !rule.sourceChannels.includes(fullSessionChannelId)) return false
+    return true
   }
 
   // 当 content 为空时，从 elements 兜底生成可读文本
@@ -173,110 +292,107 @@ export function apply(ctx: Context, config: Config) {
   }
 
 
+  const bridge = createBridge(ctx, config, resolver, converter, contentFilter)
+  const replyRelay = createReplyRelay(ctx, config, rules, resolver, contentFilter)
+
   const middlewareDispose = ctx.middleware(async (session, next) => {
     await next()
-    const currentConfig = ctx.config
-    const fullSessionUserId = `${session.platform}:${session.userId}`
-    const matchedRule = currentConfig.monitoringRules.find(rule => rule.userId === fullSessionUserId)
-    if (!matchedRule) return
+    await bridge.handle(session)
+    await replyRelay.handle(session)
+    // 通配规则下不能转发机器人自己 (包括同一实例中的其他机器人账号) 发出的消息，否则会形成回环
+    if (isOwnMessage(ctx, session)) return
     
     // 生成完整消息文本用于关键词匹配
     const messageText = session.content || stringifyElementsAsText(session.elements)
-    const hasKeyword = matchedRule.keywords.length === 0 || matchedRule.keywords.some(kw => messageText.includes(kw))
-    if (!hasKeyword) return
-    
-    // 检查是否有文件或语音，如果有则不进行转发
-    if (hasFileElement(session.elements) || hasAudioElement(session.elements)) {
-      return // 有文件或语音的消息不转发
+    const richText = stringifyElementsAsText(session.elements)
+    // 按顺序取第一条发送者、来源与关键词均匹配的规则；发送者与来源匹配但关键词未命中的规则计入过滤统计
+    let matchedRule: MonitoringRule
+    for (const rule of rules.monitoringRules()) {
+      if (!matchesSender(rule, session) || !matchesSource(rule, session)) continue
+      if (getKeywordMatcher(rule).match(session.elements, richText)) {
+        matchedRule = rule
+        break
+      }
+      countStat(ctx, 'monitor', rule.userId, 'filtered')
     }
+    if (!matchedRule) return
     
     let sourceSenderDisplayName = session.username
-    try {
-      const member = await session.bot.getGuildMember(session.guildId, session.userId)
-      if (member?.name) sourceSenderDisplayName = member.name
-      else if (member?.nick) sourceSenderDisplayName = member.nick
-    } catch (error) {
-      if (ctx.config.debug) logger.warn(`(自动监控) 获取源群聊 ${session.guildId} 的昵称失败:`, error)
+    if (session.guildId) {
+      sourceSenderDisplayName = await lookup.getDisplayName(session.bot, session.guildId, session.userId) ?? session.username
+    }
+    // 去重：时间窗口内已转发过的相同内容不再转发
+    const ruleKey = `monitor:${matchedRule.userId}`
+    const fingerprint = dedup.enabled(matchedRule) ? await dedup.fingerprint(session.elements) : null
+    if (!dedup.claim(ruleKey, fingerprint, matchedRule)) return
+    // 摘要模式：先缓冲，由摘要定时或达到条数后统一发送
+    if (matchedRule.digestMode) {
+      if (!await digest.add(matchedRule, session, sourceSenderDisplayName)) dedup.release(ruleKey, fingerprint)
+      return
+    }
+    const finalTargets = dedup.filterTargets(
+      matchedRule.relayTargetChannels.filter(ch => !resolver.isSameChannel(ch, session.platform, session.channelId)),
+      fingerprint,
+      matchedRule,
+    )
+    if (finalTargets.length === 0) {
+      dedup.release(ruleKey, fingerprint)
+      return
     }
-    const fullSessionChannelId = `${session.platform}:${session.channelId}`
-    const finalTargets = matchedRule.relayTargetChannels.filter(ch => ch !== fullSessionChannelId)
-    if (finalTargets.length === 0) return
     if (ctx.config.debug) logger.info(`匹配到规则 (用户: ${matchedRule.userId})，准备为 ${finalTargets.length} 个目标频道分别生成消息...`)
+    const template = matchedRule.template ?? DEFAULT_TEMPLATE
+    const templateVariables = await createTemplateVariables(session, [template], { sender: sourceSenderDisplayName }, lookup)
+    // 合并转发、小程序与媒体按统一管线转换，每条消息只转换一次，结果供所有目标频道复用
+    const converted = await converter.convert(session.bot, session.elements)
+    if (!converted.content.length) converted.content = [h.text(messageText)]
+    // 内容过滤：命中屏蔽词时不转发，其余按规则替换
+    const filteredContent = await contentFilter.filter('monitor', matchedRule.userId, matchedRule, session, converted.content)
+    if (!filteredContent) {
+      dedup.release(ruleKey, fingerprint)
+      return
+    }
+    converted.content = filteredContent
     let successCount = 0
+    const deliveries: RelayDelivery[] = []
+    // 一次性并行获取所有目标群的昵称，获取失败时使用源群聊昵称
+    const targetNames = await resolver.getDisplayNames(finalTargets, session.userId, session)
     for (const targetChannelId of finalTargets) {
-      let targetSenderDisplayName = sourceSenderDisplayName
-      try {
-        const plainTargetId = targetChannelId.split(':')[1] || targetChannelId
-        const targetMember = await session.bot.getGuildMember(plainTargetId, session.userId)
-        if (targetMember?.name) targetSenderDisplayName = targetMember.name
-        else if (targetMember?.nick) targetSenderDisplayName = targetMember.nick
-      } catch (error) {
-        if (ctx.config.debug) logger.info(`无法获取用户在目标频道 ${targetChannelId} 的昵称，将使用源群聊昵称。`)
-      }
+      const delivery = resolver.createDelivery(targetChannelId, session)
+      deliveries.push(delivery)
+      const targetSenderDisplayName = targetNames.get(targetChannelId) ?? sourceSenderDisplayName
       
       try {
-        // 检查是否有媒体内容需要特殊处理
-        if (hasMfaceElement(session.elements) || hasMediaElement(session.elements)) {
-          // 处理媒体内容
-          const processedElements = []
-          const usernameElement = h.text(`${targetSenderDisplayName}：`)
-          processedElements.push(usernameElement)
-          
-          for (const element of session.elements) {
-            const type = element?.type
-            const attrs = element?.attrs || {}
-            
-            if (type === 'mface' && (attrs as any).url) {
-              try {
-                const response = await ctx.http.get((attrs as any).url, { responseType: 'arraybuffer' })
-                const buffer = Buffer.from(response)
-                const mimeType = getMimeType(buffer)
-                const dataUrl = `data:${mimeType};base64,${buffer.toString('base64')}`
-                processedElements.push(h.image(dataUrl))
-              } catch (err) {
-                logger.warn(`下载表情包失败: ${err.message}`)
-                processedElements.push(h.text((attrs as any).summary || '[表情包]'))
-              }
-            } else if (['img', 'image', 'video'].includes(type) && (attrs as any).src) {
-              try {
-                const response = await ctx.http.get((attrs as any).src, { responseType: 'arraybuffer' })
-                const buffer = Buffer.from(response)
-                const mimeType = getMimeType(buffer)
-                const dataUrl = `data:${mimeType};base64,${buffer.toString('base64')}`
-                
-                if (type === 'video') {
-                  processedElements.push(h.video(dataUrl))
-                } else {
-                  processedElements.push(h.image(dataUrl))
-                }
-              } catch (err) {
-                logger.warn(`下载媒体失败: ${err.message}`)
-                processedElements.push(h.text(`[${type}]`))
-              }
-            } else {
-              processedElements.push(element)
-            }
-          }
-          
-          const plainTargetId = targetChannelId.split(':')[1] || targetChannelId
-          await session.bot.sendMessage(plainTargetId, processedElements)
-        } else {
-          // 普通消息直接发送文本
-          const messageForThisChannel = `${targetSenderDisplayName}：${messageText}`
-          const sentMessageIds = await ctx.broadcast([targetChannelId], messageForThisChannel)
-          if (sentMessageIds.length === 0) {
-            logger.warn(`[失败] 转发到频道 ${targetChannelId} 失败（Broadcast未返回ID）。`)
-            continue
-          }
+        const variables = { ...templateVariables, sender: targetSenderDisplayName }
+        for (const message of converter.render(converted, { template }, variables)) {
+          delivery.messageIds.push(...await resolver.send(targetChannelId, message, session, delivery))
+        }
+        if (delivery.messageIds.length === 0) {
+          logger.warn(`[失败] 转发到频道 ${targetChannelId} 失败（未返回消息ID）。`)
+          delivery.error = '未返回消息ID'
+          continue
         }
         
         if (ctx.config.debug) logger.info(`[成功] 已将消息转发到 ${targetChannelId}`)
+        delivery.success = true
         successCount++
       } catch (error) {
         logger.error(`[失败] 转发到频道 ${targetChannelId} 时发生错误:`, error)
+        delivery.error = String(error)
       }
     }
     if (ctx.config.debug) logger.info(`转发任务完成: 成功 ${successCount}/${finalTargets.length}。`)
+    if (!successCount) dedup.release(ruleKey, fingerprint)
+    for (const delivery of deliveries) {
+      if (delivery.success) dedup.markDelivered(delivery.targetChannel, fingerprint)
+    }
+    await ledger.recordRelay(ctx, {
+      ruleType: 'monitor',
+      ruleKey: matchedRule.userId,
+      platform: session.platform,
+      channelId: session.channelId,
+      messageId: session.messageId,
+      userId: session.userId,
+    }, deliveries)
   })
   
   ctx.on('dispose', () => {
@@ -284,631 +400,362 @@ export function apply(ctx: Context, config: Config) {
     logger.info('传声筒插件中间件已卸载。')
   })
 
-  ctx.command('传话筒 <target:string> <content:text>', '手动发送消息到指定群聊', { authority: config.commandAuthLevel })
-    .action(async ({ session }, rawTarget, content) => {
+  // 按序号、群名称或群号解析单个传话目标，返回允许列表中的对应条目
+  async function resolveManualTarget(rawTarget: string, allowedChannels: string[], session: Session) {
+    let resolvedChannelId: string = null
+    const index = parseInt(rawTarget, 10);
+    if (!isNaN(index) && index > 0 && index <= allowedChannels.length) {
+      resolvedChannelId = allowedChannels[index - 1];
+    }
+    if (!resolvedChannelId) {
+      const guilds = await Promise.all(allowedChannels.map(groupId => resolver.getGuild(groupId, session).catch(() => undefined)))
+      resolvedChannelId = allowedChannels.find((_, index) => guilds[index]?.name === rawTarget)
+    }
+    if (!resolvedChannelId) {
+        resolvedChannelId = rawTarget.includes(':') ? rawTarget : `${ctx.config.defaultPlatform}:${rawTarget}`
+    }
+    // 允许列表中的条目可能带有 @selfId 后缀，按频道比较
+    return allowedChannels.find(ch => channelKey(ch) === channelKey(resolvedChannelId))
+  }
+
+  // 按目标群聊中的昵称渲染每个目标的传话内容，昵称并行获取
+  async function renderManualMessages(targets: string[], session: Session, content: h[]) {
+    const names = await resolver.getDisplayNames(targets, session.userId, session)
+    const templateVariables = await createTemplateVariables(session, [config.manualRelayTemplate], {}, lookup)
+    return new Map(targets.map(target => [target, renderTemplate(config.manualRelayTemplate, {
+      ...templateVariables,
+      sender: names.get(target) ?? session.username,
+    }, content)]))
+  }
+
+  const manualRelayFilter: ContentFilterOptions = {
+    blockedWords: config.manualRelayBlockedWords,
+    maskedWords: config.manualRelayMaskedWords,
+    urlPolicy: config.manualRelayUrlPolicy,
+    urlWhitelist: config.manualRelayUrlWhitelist,
+    redactPatterns: config.manualRelayRedactPatterns,
+  }
+
+  const manualRelayAccess: AccessOptions = {
+    allowedSourceChannels: config.manualRelayAllowedSourceChannels,
+    allowedUsers: config.manualRelayAllowedUsers,
+    deniedUsers: config.manualRelayDeniedUsers,
+    cooldown: config.manualRelayCooldown,
+  }
+
+  ctx.command('传话筒 <target:string> <content:text>', '手动发送消息到指定群聊，多个目标用逗号分隔', { authority: config.commandAuthLevel })
+    .option('at', '--at <time:string> 在指定时间发送，如 9:00、明天9:00、2025-01-01 9:00')
+    .option('delay', '--delay <time:string> 延迟指定时长后发送，如 30m、1h30m')
+    .action(async ({ session, options }, rawTarget, content) => {
+        const denied = access.check('传话筒', manualRelayAccess, session) ?? (config.manualRelayRequireApproval ? approval.unavailable() : undefined)
+        if (denied) return denied
         if (!content) return '错误：发言内容不能为空。'
-        let resolvedChannelId: string = null
-        const index = parseInt(rawTarget, 10);
-        if (!isNaN(index) && index > 0 && index <= ctx.config.manualRelayAllowedChannels.length) {
-          resolvedChannelId = ctx.config.manualRelayAllowedChannels[index - 1];
+        let sendAt: Date = null
+        if (options.at || options.delay) {
+          if (!ctx.database) return '错误：定时传话需要启用数据库。'
+          sendAt = parseSendTime(options.at, options.delay)
+          if (!sendAt || isNaN(sendAt.getTime())) return `错误：无法解析发送时间 "${options.delay ?? options.at}"。`
+          if (sendAt.getTime() <= Date.now()) return '错误：发送时间不能早于当前时间。'
+          if (config.manualRelayRequireApproval) return '错误：需要审核的传话不支持定时发送。'
         }
-        if (!resolvedChannelId) {
-          for (const groupId of ctx.config.manualRelayAllowedChannels) {
-            try {
-              const plainGroupId = groupId.split(':')[1] || groupId
-              const guild = await session.bot.getGuild(plainGroupId);
-              if (guild.name === rawTarget) {
-                resolvedChannelId = groupId;
-                break;
-              }
-            } catch {}
+        const allowedChannels = rules.manualRelayChannels()
+        const targets: string[] = []
+        const unresolved: string[] = []
+        for (const token of rawTarget.split(/[,，]/).map(token => token.trim()).filter(Boolean)) {
+          // 命名群组展开为其中的每个群聊，群聊同样需要在允许列表中
+          const group = config.manualRelayGroups.find(group => group.name === token)
+          for (const item of group ? group.channels : [token]) {
+            const resolved = await resolveManualTarget(item, allowedChannels, session)
+            if (!resolved) unresolved.push(group ? `${token}/${item}` : item)
+            else if (!targets.some(target => channelKey(target) === channelKey(resolved))) targets.push(resolved)
           }
         }
-        if (!resolvedChannelId) {
-            resolvedChannelId = rawTarget.includes(':') ? rawTarget : `${ctx.config.defaultPlatform}:${rawTarget}`
+        if (unresolved.length) {
+          return `错误：找不到目标 ${unresolved.map(item => `"${item}"`).join('、')} 或该目标不在允许传话的列表中。`
         }
-        if (!ctx.config.manualRelayAllowedChannels.includes(resolvedChannelId)) {
-          return `错误：找不到目标 "${rawTarget}" 或该目标不在允许传话的列表中。`
+        if (!targets.length) return `错误：找不到目标 "${rawTarget}" 或该目标不在允许传话的列表中。`
+        const contentElements = await contentFilter.filter('manual', '传话筒', manualRelayFilter, session, h.parse(content))
+        if (!contentElements) return '错误：消息包含被禁止的内容，已取消发送。'
+        access.touch('传话筒', manualRelayAccess, session)
+        const manualMessages = await renderManualMessages(targets, session, contentElements)
+        if (config.manualRelayRequireApproval) {
+          const payload: ApprovalPayload[] = []
+          for (const target of targets) {
+            const message = adaptElements(manualMessages.get(target), session.platform, resolver.parse(target).platform)
+            payload.push({ target, messages: [message.join('')] })
+          }
+          return approval.request(session, {
+            ruleType: 'manual',
+            ruleKey: '传话筒',
+            platform: session.platform,
+            channelId: session.channelId,
+            messageId: session.messageId,
+            userId: session.userId,
+          }, payload)
         }
-        let senderDisplayName = session.username
-        try {
-          const plainTargetId = resolvedChannelId.split(':')[1] || resolvedChannelId
-          const member = await session.bot.getGuildMember(plainTargetId, session.userId)
-          if (member?.name) senderDisplayName = member.name
-          else if (member?.nick) senderDisplayName = member.nick
-        } catch (error) {
-          if (ctx.config.debug) logger.warn(`(手动传话) 获取用户 ${session.userId} 在目标群聊 ${resolvedChannelId} 的昵称失败:`, error)
+        if (sendAt) {
+          const ids: number[] = []
+          for (const target of targets) {
+            const entry = await scheduler.add(target, manualMessages.get(target), session, sendAt)
+            ids.push(entry.id)
+          }
+          return `已创建定时传话 ${ids.map(id => `#${id}`).join('、')}，将于 ${Time.template('yyyy-MM-dd hh:mm', sendAt)} 发送。`
         }
-        const manualMessage = `[传话筒 | 来自: ${senderDisplayName}] \n${content}`
-        try {
-          const sentMessageIds = await ctx.broadcast([resolvedChannelId], manualMessage)
-          if (sentMessageIds.length > 0) return '消息已成功送达！'
-          else throw new Error('Broadcast failed to send message.')
-        } catch (error) {
-          logger.error(`[失败] 手动传话到频道 ${resolvedChannelId} 失败:`, error)
-          return `发送失败。请检查频道ID是否正确、机器人是否在该群聊中，或查看控制台日志。`
+        const deliveries: RelayDelivery[] = []
+        const results: string[] = []
+        for (const target of targets) {
+          const delivery = resolver.createDelivery(target, session)
+          deliveries.push(delivery)
+          try {
+            const sentMessageIds = await resolver.send(target, manualMessages.get(target), session, delivery)
+            if (sentMessageIds.length > 0) {
+              delivery.messageIds = sentMessageIds
+              delivery.success = true
+              results.push(`✓ ${target}：已送达`)
+            } else throw new Error('No message ID returned.')
+          } catch (error) {
+            logger.error(`[失败] 手动传话到频道 ${target} 失败:`, error)
+            delivery.error = String(error)
+            results.push(delivery.retryContent && ctx.database
+              ? `✗ ${target}：发送失败，已加入待重发队列`
+              : `✗ ${target}：发送失败`)
+          }
         }
+        await ledger.recordRelay(ctx, {
+          ruleType: 'manual',
+          ruleKey: '传话筒',
+          platform: session.platform,
+          channelId: session.channelId,
+          messageId: session.messageId,
+          userId: session.userId,
+        }, deliveries)
+        const successCount = deliveries.filter(delivery => delivery.success).length
+        const hint = successCount < deliveries.length && !ctx.database ? '\n请检查频道ID是否正确、机器人是否在该群聊中，或查看控制台日志。' : ''
+        return `传话结果 (成功 ${successCount}/${deliveries.length})：\n${results.join('\n')}${hint}`
     })
 
   ctx.command('支持的群聊', '显示传话筒功能支持的群聊列表')
     .action(async ({ session }) => {
-        if (!ctx.config.manualRelayAllowedChannels.length) {
+        const allowedChannels = rules.manualRelayChannels()
+        if (!allowedChannels.length) {
             return '当前没有配置任何支持手动传话的群聊。'
         }
         let response = '「传话筒」指令目前支持以下群聊 (可通过序号、群名称或群号传话)：\n'
-        const listItems: string[] = []
-        for (const [index, groupId] of ctx.config.manualRelayAllowedChannels.entries()) {
-            try {
-                const plainGroupId = groupId.split(':')[1] || groupId
-                const guild = await session.bot.getGuild(plainGroupId) 
-                listItems.push(`${index + 1}. ${guild.name} (${groupId})`)
-            } catch {
-                listItems.push(`${index + 1}. (信息获取失败) (${groupId})`)
-            }
+        const guilds = await Promise.all(allowedChannels.map(groupId => resolver.getGuild(groupId, session).catch(() => undefined)))
+        const listItems = allowedChannels.map((groupId, index) => guilds[index]
+            ? `${index + 1}. ${guilds[index].name} (${groupId})`
+            : `${index + 1}. (信息获取失败) (${groupId})`)
+        for (const group of config.manualRelayGroups) {
+            listItems.push(`[群组] ${group.name} (${group.channels.length} 个群聊)`)
         }
         return response + listItems.join('\n')
     })
 
   // 新增：引用转发命令（支持多个指令，每个有独立配置）
-  if (config.quotedRelayEnabled && config.quotedRelayRules.length > 0) {
-    for (const rule of config.quotedRelayRules) {
-      ctx.command(rule.commandName + ' [content:text]', '将引用/回复的那条消息转发到已配置的群组，或直接转发输入的内容', { authority: config.quotedRelayAuthLevel })
-        .action(async ({ session }, content) => {
-          const quoted: any = (session as any).quote
-          let messageToSend: string = ''
-          let originalUserId: string = session.userId
-          let sourceDisplayName: string = session.username
-          let isQuotedMessage = false
+  function registerQuotedRelayCommand(rule: QuotedRelayRule) {
+    return ctx.command(rule.commandName + ' [content:text]', '将引用/回复的那条消息转发到已配置的群组，或直接转发输入的内容', { authority: config.quotedRelayAuthLevel })
+      .action(async ({ session }, content) => {
+        const denied = access.check(`quoted:${rule.commandName}`, rule, session) ?? (rule.requireApproval ? approval.unavailable() : undefined)
+        if (denied) return denied
+        const quoted: any = (session as any).quote
+        let messageToSend: string = ''
+        let originalUserId: string = session.userId
+        let sourceDisplayName: string = session.username
+        let isQuotedMessage = false
 
-          if (quoted) {
-            // 引用模式：转发被引用的消息
-            isQuotedMessage = true
-            
-            // 详细日志：输出quoted对象的所有信息
-            if (ctx.config.debug) {
-              logger.info('=== 引用消息调试信息 ===')
-              logger.info('quoted对象:', JSON.stringify(quoted, null, 2))
-              logger.info('quoted.content:', quoted.content)
-              logger.info('quoted.elements:', quoted.elements)
-              logger.info('quoted类型:', typeof quoted)
-              if (quoted.elements) {
-                logger.info('elements详情:')
-                quoted.elements.forEach((element, index) => {
-                  logger.info(`  元素${index}:`, JSON.stringify(element, null, 2))
-                })
-              }
-              logger.info('=== 引用消息调试信息结束 ===')
-            }
-            
-            // 获取被引用消息发送者信息
-            originalUserId = quoted.userId ?? quoted?.author?.userId ?? quoted?.user?.id ?? session.userId
-            sourceDisplayName = quoted?.username ?? quoted?.author?.name ?? quoted?.user?.name ?? session.username
-            
-            // 直接使用原始消息内容，包括合并转发消息
-            try {
-              messageToSend = (quoted.content ?? '').toString().trim()
-            } catch {}
-            
-            if (ctx.config.debug) {
-              logger.info(`提取的messageToSend: "${messageToSend}"`)
-              logger.info(`messageToSend长度: ${messageToSend.length}`)
-            }
-            
-            if (!messageToSend) {
-              return '错误：引用的消息没有可转发的内容。'
-            }
-          } else if (content) {
-            // 直接模式：转发输入的内容
-            messageToSend = content.trim()
-            if (!messageToSend) {
-              return '错误：输入的内容不能为空。'
+        if (quoted) {
+          // 引用模式：转发被引用的消息
+          isQuotedMessage = true
+          
+          // 详细日志：输出quoted对象的所有信息
+          if (ctx.config.debug) {
+            logger.info('=== 引用消息调试信息 ===')
+            logger.info('quoted对象:', JSON.stringify(quoted, null, 2))
+            logger.info('quoted.content:', quoted.content)
+            logger.info('quoted.elements:', quoted.elements)
+            logger.info('quoted类型:', typeof quoted)
+            if (quoted.elements) {
+              logger.info('elements详情:')
+              quoted.elements.forEach((element, index) => {
+                logger.info(`  元素${index}:`, JSON.stringify(element, null, 2))
+              })
             }
-            // 使用当前用户信息
-            originalUserId = session.userId
-            sourceDisplayName = session.username
-          } else {
-            return '请先引用（回复）一条消息再使用该指令，或直接输入要转发的内容。'
+            logger.info('=== 引用消息调试信息结束 ===')
           }
-
-          // 获取发送者在源群的显示名（如果启用显示原发送者）
-          if (rule.showOriginalSender) {
-            try {
-              const member = await session.bot.getGuildMember(session.guildId, originalUserId)
-              if (member?.name) sourceDisplayName = member.name
-              else if (member?.nick) sourceDisplayName = member.nick
-            } catch (error) {
-              if (ctx.config.debug) logger.warn(`(引用转发) 获取源群聊昵称失败:`, error)
-            }
+          
+          // 获取被引用消息发送者信息
+          originalUserId = quoted.userId ?? quoted?.author?.userId ?? quoted?.user?.id ?? session.userId
+          sourceDisplayName = quoted?.username ?? quoted?.author?.name ?? quoted?.user?.name ?? session.username
+          
+          // 直接使用原始消息内容，包括合并转发消息
+          try {
+            messageToSend = (quoted.content ?? '').toString().trim()
+          } catch {}
+          
+          if (ctx.config.debug) {
+            logger.info(`提取的messageToSend: "${messageToSend}"`)
+            logger.info(`messageToSend长度: ${messageToSend.length}`)
+          }
+          
+          if (!messageToSend) {
+            return '错误：引用的消息没有可转发的内容。'
+          }
+        } else if (content) {
+          // 直接模式：转发输入的内容
+          messageToSend = content.trim()
+          if (!messageToSend) {
+            return '错误：输入的内容不能为空。'
           }
+          // 使用当前用户信息
+          originalUserId = session.userId
+          sourceDisplayName = session.username
+        } else {
+          return '请先引用（回复）一条消息再使用该指令，或直接输入要转发的内容。'
+        }
+
+        // 获取发送者在源群的显示名（如果启用显示原发送者）
+        if (rule.showOriginalSender && session.guildId) {
+          sourceDisplayName = await lookup.getDisplayName(session.bot, session.guildId, originalUserId) ?? sourceDisplayName
+        }
+
+        // 计算目标频道（可选排除来源群）
+        const configuredTargets = (rule.targetChannels ?? []).filter(ch =>
+          rule.excludeSource ? !resolver.isSameChannel(ch, session.platform, session.channelId) : true
+        )
+        if (!configuredTargets.length) return '尚未配置任何目标群组，或仅剩来源群聊被排除。'
+
+        // 去重：时间窗口内已转发过的相同内容不再转发
+        const ruleKey = `quoted:${rule.commandName}`
+        const relayedElements: h[] = isQuotedMessage && quoted.elements?.length ? quoted.elements : h.parse(messageToSend)
+        const fingerprint = dedup.enabled(rule) ? await dedup.fingerprint(relayedElements) : null
+        if (!dedup.claim(ruleKey, fingerprint, rule)) return `相同内容在 ${rule.dedupWindow} 秒内已转发过，已跳过。`
+        const targets = dedup.filterTargets(configuredTargets, fingerprint, rule)
+        if (!targets.length) {
+          dedup.release(ruleKey, fingerprint)
+          return '所有目标群组都已收到过相同内容，已跳过。'
+        }
+        access.touch(`quoted:${rule.commandName}`, rule, session)
 
-          // 计算目标频道（可选排除来源群）
-          const fullSourceChannelId = `${session.platform}:${session.channelId}`
-          const targets = (rule.targetChannels ?? []).filter(ch =>
-            rule.excludeSource ? ch !== fullSourceChannelId : true
-          )
-          if (!targets.length) return '尚未配置任何目标群组，或仅剩来源群聊被排除。'
+        if (ctx.config.debug) logger.info(`(引用转发) 指令 "${rule.commandName}" 准备转发消息到 ${targets.length} 个目标频道...`)
+        if (ctx.config.debug) logger.info(`待转发的消息内容: "${messageToSend}"`)
+        const templates = [rule.template, rule.forwardTemplate, rule.shareTemplate, rule.fileTemplate]
+        const templateVariables = await createTemplateVariables(session, templates, { sender: sourceDisplayName, senderId: originalUserId }, lookup)
+        let successCount = 0
+        const deliveries: RelayDelivery[] = []
+        // 合并转发、小程序与媒体按统一管线转换，只转换一次，结果供所有目标复用
+        const converted = await converter.convert(session.bot, relayedElements)
+        const filteredContent = await contentFilter.filter('quoted', rule.commandName, rule, session, converted.content)
+        if (!filteredContent) {
+          dedup.release(ruleKey, fingerprint)
+          return '消息包含被禁止的内容，已取消转发。'
+        }
+        converted.content = filteredContent
+        if (ctx.config.debug) logger.info(`(引用转发) 消息类型: ${converted.kind}`)
+        const relaySource: ledger.RelaySource = {
+          ruleType: 'quoted',
+          ruleKey: rule.commandName,
+          platform: session.platform,
+          channelId: session.channelId,
+          messageId: isQuotedMessage ? (quoted.id ?? quoted.messageId) : session.messageId,
+          userId: originalUserId,
+          operatorId: session.userId,
+        }
+
+        // 一次性并行获取该用户在所有目标群的昵称，获取失败时使用源群聊昵称
+        const targetNames = rule.showOriginalSender ? await resolver.getDisplayNames(targets, originalUserId, session) : new Map<string, string>()
+        function getTargetVariables(targetChannelId: string) {
+          return { ...templateVariables, sender: targetNames.get(targetChannelId) ?? sourceDisplayName }
+        }
 
-          if (ctx.config.debug) logger.info(`(引用转发) 指令 "${rule.commandName}" 准备转发消息到 ${targets.length} 个目标频道...`)
-          if (ctx.config.debug) logger.info(`待转发的消息内容: "${messageToSend}"`)
-          let successCount = 0
+        // 需要审核时，按目标渲染好内容后提交审核，不直接发送；已下载的媒体还原为源链接保存
+        if (rule.requireApproval) {
+          const payload: ApprovalPayload[] = []
           for (const targetChannelId of targets) {
-            let finalMessage: string
-            
-            if (rule.showOriginalSender) {
-              // 尝试获取该用户在目标群的昵称
-              let targetDisplayName = sourceDisplayName
-              try {
-                const plainTargetId = targetChannelId.split(':')[1] || targetChannelId
-                const targetMember = await session.bot.getGuildMember(plainTargetId, originalUserId)
-                if (targetMember?.name) targetDisplayName = targetMember.name
-                else if (targetMember?.nick) targetDisplayName = targetMember.nick
-              } catch (error) {
-                if (ctx.config.debug) logger.info(`(引用转发) 无法获取用户在目标频道 ${targetChannelId} 的昵称，将使用源群聊昵称。`)
-              }
-              finalMessage = `${targetDisplayName}：${messageToSend}`
-            } else {
-              // 不显示发送者，直接发送内容
-              finalMessage = messageToSend
-            }
+            const messages = converter.render(converted, rule.showOriginalSender ? rule : null, getTargetVariables(targetChannelId))
+            const { platform } = resolver.parse(targetChannelId)
+            payload.push({ target: targetChannelId, messages: messages.map(message => media.restore(adaptElements(message, session.platform, platform)).join('')) })
+          }
+          return approval.request(session, relaySource, payload)
+        }
 
-            if (ctx.config.debug) logger.info(`向频道 ${targetChannelId} 发送的最终消息: "${finalMessage}"`)
+        for (const targetChannelId of targets) {
+          const delivery = resolver.createDelivery(targetChannelId, session)
+          deliveries.push(delivery)
+          const variables = getTargetVariables(targetChannelId)
 
+          try {
             try {
-              // 对于引用的消息，如果是合并转发等特殊消息，使用OneBot API获取内容
-              if (isQuotedMessage && quoted.elements && quoted.elements.length > 0) {
-                if (ctx.config.debug) logger.info(`检测到引用消息有elements，尝试特殊消息处理...`)
-                
-                // 检查是否包含特殊元素
-                const hasForwardElement = quoted.elements.some(el => el.type === 'forward')
-                const hasJsonElement = quoted.elements.some(el => el.type === 'json')
-                const hasFileElement = quoted.elements.some(el => el.type === 'file')
-                const hasAudioElement = quoted.elements.some(el => ['audio', 'record'].includes(el.type))
-                const hasMfaceElement = quoted.elements.some(el => el.type === 'mface') // 表情包
-                const hasMediaElement = quoted.elements.some(el => ['img', 'image', 'video'].includes(el.type))
-                
-                // 处理文件消息 - 直接提示无法转发
-                if (hasFileElement) {
-                  if (ctx.config.debug) logger.info(`检测到文件元素，提示无法转发`)
-                  
-                  const fileElement = quoted.elements.find(el => el.type === 'file')
-                  const fileName = fileElement?.attrs?.file || fileElement?.attrs?.src || '未知文件'
-                  const fileSize = fileElement?.attrs?.fileSize
-                  
-                  // 格式化文件大小
-                  let formattedSize = '未知大小'
-                  if (fileSize && !isNaN(Number(fileSize))) {
-                    const sizeInBytes = Number(fileSize)
-                    if (sizeInBytes >= 1024 * 1024) {
-                      formattedSize = `${(sizeInBytes / (1024 * 1024)).toFixed(2)} MB`
-                    } else if (sizeInBytes >= 1024) {
-                      formattedSize = `${(sizeInBytes / 1024).toFixed(2)} KB`
-                    } else {
-                      formattedSize = `${sizeInBytes} B`
-                    }
-                  }
-                  
-                  // 直接返回提示消息，不转发
-                  return `⚠️ 检测到文件消息，暂不支持转发\n📁 文件: ${fileName}\n📏 大小: ${formattedSize}`
-                }
-                
-                // 处理语音消息 - 直接提示无法转发
-                if (hasAudioElement) {
-                  if (ctx.config.debug) logger.info(`检测到语音元素，提示无法转发`)
-                  
-                  const audioElement = quoted.elements.find(el => ['audio', 'record'].includes(el.type))
-                  const fileName = audioElement?.attrs?.file || '未知语音文件'
-                  const fileSize = audioElement?.attrs?.fileSize
-                  
-                  // 格式化文件大小
-                  let formattedSize = '未知大小'
-                  if (fileSize && !isNaN(Number(fileSize))) {
-                    const sizeInBytes = Number(fileSize)
-                    if (sizeInBytes >= 1024 * 1024) {
-                      formattedSize = `${(sizeInBytes / (1024 * 1024)).toFixed(2)} MB`
-                    } else if (sizeInBytes >= 1024) {
-                      formattedSize = `${(sizeInBytes / 1024).toFixed(2)} KB`
-                    } else {
-                      formattedSize = `${sizeInBytes} B`
-                    }
-                  }
-                  
-                  // 直接返回提示消息，不转发
-                  return `🔇 检测到语音消息，暂不支持转发\n🎵 文件: ${fileName}\n📏 大小: ${formattedSize}`
-                }
-                
-                // 处理表情包和富媒体消息
-                if (hasMfaceElement || hasMediaElement) {
-                  if (ctx.config.debug) logger.info(`检测到表情包或富媒体元素，尝试下载并重新发送...`)
-                  
-                  try {
-                    const plainTargetId = targetChannelId.split(':')[1] || targetChannelId
-                    
-                    // 构造完整消息内容
-                    let messagesToSend = []
-                    
-                    // 添加发送者信息（如果需要）
-                    if (rule.showOriginalSender) {
-                      let targetDisplayName = sourceDisplayName
-                      try {
-                        const targetMember = await session.bot.getGuildMember(plainTargetId, originalUserId)
-                        if (targetMember?.name) targetDisplayName = targetMember.name
-                        else if (targetMember?.nick) targetDisplayName = targetMember.nick
-                      } catch (error) {
-                        if (ctx.config.debug) logger.info(`无法获取目标群昵称，使用源群昵称`)
-                      }
-                      messagesToSend.push(h('text', { content: `${targetDisplayName}：` }))
-                    }
-                    
-                    // 处理所有元素，组合成完整消息
-                    for (const element of quoted.elements) {
-                      if (element.type === 'text') {
-                        // 添加文本内容
-                        if (element.attrs?.content) {
-                          messagesToSend.push(h('text', { content: element.attrs.content }))
-                        }
-                      } else if (['mface', 'img', 'image', 'video'].includes(element.type)) {
-                        try {
-                          // 获取媒体URL
-                          let url = element.attrs?.url || element.attrs?.src
-                          if (!url) {
-                            if (ctx.config.debug) logger.warn(`元素缺少URL: ${element.type}`)
-                            // 添加占位符文本
-                            messagesToSend.push(h('text', { content: `[${element.type}]` }))
-                            continue
-                          }
-                          
-                          if (ctx.config.debug) logger.info(`开始下载: ${element.type}, URL: ${url}`)
-                          
-                          // 下载媒体文件
-                          const response = await ctx.http.get(url, { responseType: 'arraybuffer', timeout: 15000 })
-                          const buffer = Buffer.from(response)
-                          
-                          // 检测MIME类型
-                          const mime = getMimeType(buffer)
-                          
-                          if (ctx.config.debug) logger.info(`下载完成: ${mime}, 大小: ${buffer.length}`)
-                          
-                          // 添加媒体内容
-                          if (element.type === 'mface' || element.type === 'img' || element.type === 'image') {
-                            messagesToSend.push(h('img', { src: `data:${mime};base64,${buffer.toString('base64')}` }))
-                          } else if (element.type === 'video') {
-                            messagesToSend.push(h('video', { src: `data:${mime};base64,${buffer.toString('base64')}` }))
-                          }
-                          
-                        } catch (err) {
-                          logger.warn(`下载${element.type}失败: ${err.message}`)
-                          // 添加错误占位符
-                          messagesToSend.push(h('text', { content: `[${element.type}-下载失败]` }))
-                        }
-                      } else {
-                        // 其他类型元素直接添加
-                        messagesToSend.push(element)
-                      }
-                    }
-                    
-                    // 一次性发送完整消息
-                    const result = await session.bot.sendMessage(plainTargetId, messagesToSend)
-                    if (ctx.config.debug) logger.info(`完整消息发送结果:`, JSON.stringify(result, null, 2))
-                    
-                    if (result && result.length > 0) {
-                      successCount++
-                      if (ctx.config.debug) logger.info(`[成功] 完整消息已转发到 ${targetChannelId}`)
-                      continue
-                    }
-                    
-                  } catch (error) {
-                    if (ctx.config.debug) logger.error(`媒体转发失败: ${error}`)
-                    // 失败时继续使用文本转发作为兜底
-                  }
-                }
-                
-                if (hasForwardElement) {
-                  if (ctx.config.debug) logger.info(`检测到forward元素，使用OneBot API获取合并转发内容...`)
-                  
-                  try {
-                    // 检查平台兼容性
-                    if (!['qq', 'onebot'].includes(session.platform)) {
-                      if (ctx.config.debug) logger.warn(`平台 ${session.platform} 可能不支持OneBot API，尝试发送...`)
-                    }
-                    
-                    const plainTargetId = targetChannelId.split(':')[1] || targetChannelId
-                    
-                    // 查找forward元素中的id
-                    const forwardElement = quoted.elements.find(el => el.type === 'forward')
-                    const forwardId = forwardElement?.attrs?.id
-                    
-                    if (!forwardId) {
-                      if (ctx.config.debug) logger.warn(`未找到forward消息ID，跳过OneBot API处理`)
-                    } else {
-                      if (ctx.config.debug) logger.info(`找到forward ID: ${forwardId}，调用OneBot API...`)
-                      
-                      // 使用OneBot API获取合并转发消息内容
-                      let forwardData
-                      try {
-                        // 尝试通过bot的OneBot适配器调用API
-                        if (session.bot.platform === 'onebot') {
-                          // @ts-ignore
-                          forwardData = await session.bot.internal?.getForwardMsg?.(forwardId)
-                        } else if (session.bot.platform === 'qq') {
-                          // 对于QQ官方bot，可能需要不同的API调用方式
-                          // @ts-ignore  
-                          forwardData = await session.bot.internal?.getForwardMsg?.(forwardId)
-                        }
-                      } catch (apiError) {
-                        if (ctx.config.debug) logger.warn(`调用API失败: ${apiError}`)
-                      }
-                      
-                      if (ctx.config.debug) {
-                        logger.info(`OneBot getForwardMsg 返回数据:`, JSON.stringify(forwardData, null, 2))
-                      }
-                      
-                      if (forwardData && Array.isArray(forwardData)) {
-                        if (ctx.config.debug) logger.info(`成功获取到 ${forwardData.length} 条合并转发消息`)
-                        
-                        // 构造Koishi格式的合并转发消息
-                        const messageNodes = []
-                        
-                        // 将OneBot格式的消息转换为Koishi格式
-                        for (const msg of forwardData) {
-                          // 处理消息内容，OneBot返回的是content数组格式
-                          const messageElements = []
-                          if (Array.isArray(msg.content)) {
-                            // 处理content数组中的各种元素
-                            for (const segment of msg.content) {
-                              if (segment.type === 'text' && segment.data?.text) {
-                                messageElements.push(h('text', { content: segment.data.text }))
-                              } else if (segment.type === 'image' && segment.data?.url) {
-                                messageElements.push(h('img', { src: segment.data.url }))
-                              } else if (segment.type === 'video' && segment.data?.url) {
-                                messageElements.push(h('video', { src: segment.data.url }))
-                              } else if (segment.type === 'at' && segment.data?.qq) {
-                                messageElements.push(h('at', { id: segment.data.qq }))
-                              } else if (segment.type === 'face' && segment.data?.id) {
-                                messageElements.push(h('text', { content: `[表情${segment.data.id}]` }))
-                              } else if (segment.type === 'record' && segment.data?.url) {
-                                messageElements.push(h('audio', { src: segment.data.url }))
-                              } else if (segment.type === 'file' && segment.data?.url) {
-                                const fileName = segment.data.name || segment.data.file || '文件'
-                                messageElements.push(h('file', { src: segment.data.url, name: fileName }))
-                              } else {
-                                // 其他类型的消息段
-                                messageElements.push(h('text', { content: `[${segment.type}]` }))
-                              }
-                            }
-                          } else if (typeof msg.content === 'string') {
-                            messageElements.push(h('text', { content: msg.content }))
-                          } else {
-                            messageElements.push(h('text', { content: msg.message || '(无法解析的消息)' }))
-                          }
-                          
-                          messageNodes.push(h('message', {
-                            userId: msg.sender?.user_id?.toString() || 'unknown',
-                            nickname: msg.sender?.nickname || '未知用户'
-                          }, messageElements))
-                        }
-                        
-                        // 使用h('figure')构造合并转发
-                        const figureMessage = h('figure', {}, messageNodes)
-                        
-                        if (ctx.config.debug) {
-                          logger.info(`构造的figure消息:`, JSON.stringify(figureMessage, null, 2))
-                        }
-                        
-                        // 如果需要显示发送者，先发送发送者信息
-                        if (rule.showOriginalSender) {
-                          let targetDisplayName = sourceDisplayName
-                          try {
-                            const targetMember = await session.bot.getGuildMember(plainTargetId, originalUserId)
-                            if (targetMember?.name) targetDisplayName = targetMember.name
-                            else if (targetMember?.nick) targetDisplayName = targetMember.nick
-                          } catch (error) {
-                            if (ctx.config.debug) logger.info(`无法获取目标群昵称，使用源群昵称`)
-                          }
-                          
-                          // 先发送发送者信息
-                          await session.bot.sendMessage(plainTargetId, `${targetDisplayName} 发送了一个转发消息`)
-                        }
-                        
-                        // 发送合并转发消息
-                        const result = await session.bot.sendMessage(plainTargetId, figureMessage)
-                        if (ctx.config.debug) logger.info(`figure发送返回结果:`, JSON.stringify(result, null, 2))
-                        
-                        if (result && result.length > 0) {
-                          successCount++
-                          if (ctx.config.debug) logger.info(`[成功] 使用OneBot API成功转发合并转发消息到 ${targetChannelId}`)
-                          continue
-                        } else {
-                          if (ctx.config.debug) logger.warn(`figure方式可能成功但未返回有效结果`)
-                          // 有些情况下发送成功但不返回标准格式
-                          if (result !== null && result !== undefined) {
-                            successCount++
-                            if (ctx.config.debug) logger.info(`[成功] OneBot API转发可能已成功到 ${targetChannelId}`)
-                            continue
-                          }
-                        }
-                        } else {
-                          if (ctx.config.debug) logger.warn(`OneBot API返回的数据不是数组格式: ${typeof forwardData}`)
-                        }
-                    }
-                  } catch (error) {
-                    if (ctx.config.debug) logger.warn(`OneBot API处理失败: ${error}，回退到文本模式`)
-                  }
-                } else if (hasJsonElement) {
-                  if (ctx.config.debug) logger.info(`检测到json元素（QQ小程序），尝试提取链接...`)
-                  
-                  try {
-                    const plainTargetId = targetChannelId.split(':')[1] || targetChannelId
-                    
-                    // 查找json元素
-                    const jsonElement = quoted.elements.find(el => el.type === 'json')
-                    if (jsonElement && jsonElement.attrs?.data) {
-                      if (ctx.config.debug) logger.info(`找到json数据，尝试解析链接...`)
-                      
-                      // 解析 JSON 数据
-                      const jsonData = JSON.parse(jsonElement.attrs.data)
-                      if (ctx.config.debug) logger.info(`解析的JSON数据:`, JSON.stringify(jsonData, null, 2))
-                      
-                      // 提取链接信息
-                      let linkMessage = ''
-                      const title = jsonData.meta?.detail_1?.title || '未知应用'
-                      const desc = jsonData.meta?.detail_1?.desc || jsonData.prompt || ''
-                      
-                      // 优先使用 qqdocurl，其次使用 url
-                      let linkUrl = ''
-                      if (jsonData.meta?.detail_1?.qqdocurl) {
-                        linkUrl = jsonData.meta.detail_1.qqdocurl
-                      } else if (jsonData.meta?.detail_1?.url) {
-                        linkUrl = jsonData.meta.detail_1.url
-                        // 如果url不是完整链接，添加协议
-                        if (!linkUrl.startsWith('http')) {
-                          linkUrl = 'https://' + linkUrl
-                        }
-                      }
-                      
-                      if (linkUrl) {
-                        linkMessage = `【${title}】${desc}\n${linkUrl}`
-                      } else {
-                        linkMessage = `【${title}】${desc}\n(未找到可用链接)`
-                      }
-                      
-                      if (ctx.config.debug) logger.info(`提取的链接信息: "${linkMessage}"`)
-                      
-                      // 如果需要显示发送者，添加发送者信息到链接消息中
-                      let finalLinkMessage = linkMessage
-                      if (rule.showOriginalSender) {
-                        let targetDisplayName = sourceDisplayName
-                        try {
-                          const targetMember = await session.bot.getGuildMember(plainTargetId, originalUserId)
-                          if (targetMember?.name) targetDisplayName = targetMember.name
-                          else if (targetMember?.nick) targetDisplayName = targetMember.nick
-                        } catch (error) {
-                          if (ctx.config.debug) logger.info(`无法获取目标群昵称，使用源群昵称`)
-                        }
-                        
-                        finalLinkMessage = `${targetDisplayName} 分享了：\n${linkMessage}`
-                      }
-                      
-                      // 发送链接消息
-                      const result = await session.bot.sendMessage(plainTargetId, finalLinkMessage)
-                      if (ctx.config.debug) logger.info(`链接发送返回结果:`, JSON.stringify(result, null, 2))
-                      
-                      if (result && result.length > 0) {
-                        successCount++
-                        if (ctx.config.debug) logger.info(`[成功] 成功转发QQ小程序链接到 ${targetChannelId}`)
-                        continue
-                      } else {
-                        if (ctx.config.debug) logger.warn(`链接发送可能成功但未返回有效结果`)
-                        // 有些情况下发送成功但不返回标准格式
-                        if (result !== null && result !== undefined) {
-                          successCount++
-                          if (ctx.config.debug) logger.info(`[成功] QQ小程序链接转发可能已成功到 ${targetChannelId}`)
-                          continue
-                        }
-                      }
-                    } else {
-                      if (ctx.config.debug) logger.warn(`json元素没有data属性`)
-                    }
-                  } catch (error) {
-                    if (ctx.config.debug) logger.warn(`QQ小程序链接解析失败: ${error}，回退到文本模式`)
-                  }
-                } else if (hasFileElement) {
-                  if (ctx.config.debug) logger.info(`检测到file元素，暂不支持文件转发`)
-                  
-                  try {
-                    const plainTargetId = targetChannelId.split(':')[1] || targetChannelId
-                    
-                    // 查找file元素
-                    const fileElement = quoted.elements.find(el => el.type === 'file')
-                    if (fileElement && fileElement.attrs) {
-                      if (ctx.config.debug) logger.info(`找到文件数据:`, JSON.stringify(fileElement.attrs, null, 2))
-                      
-                      // 提取文件信息
-                      const fileName = fileElement.attrs.file || fileElement.attrs.src || '未知文件'
-                      const fileSize = fileElement.attrs.fileSize || '未知大小'
-                      const fileId = fileElement.attrs.fileId || ''
-                      
-                      // 格式化文件大小
-                      let formattedSize = fileSize
-                      if (typeof fileSize === 'string' && !isNaN(Number(fileSize))) {
-                        const sizeInBytes = Number(fileSize)
-                        if (sizeInBytes >= 1024 * 1024) {
-                          formattedSize = `${(sizeInBytes / (1024 * 1024)).toFixed(2)} MB`
-                        } else if (sizeInBytes >= 1024) {
-                          formattedSize = `${(sizeInBytes / 1024).toFixed(2)} KB`
-                        } else {
-                          formattedSize = `${sizeInBytes} B`
-                        }
-                      }
-                      
-                      // 构造文件信息消息
-                      let fileInfoMessage = `📁 文件: ${fileName}\n📏 大小: ${formattedSize}`
-                      if (fileId) {
-                        fileInfoMessage += `\n🆔 文件ID: ${fileId}`
-                      }
-                      fileInfoMessage += `\n⚠️ 注意: 暂不支持文件转发，请手动下载后重新发送`
-                      
-                      // 如果需要显示发送者，添加发送者信息
-                      if (rule.showOriginalSender) {
-                        let targetDisplayName = sourceDisplayName
-                        try {
-                          const targetMember = await session.bot.getGuildMember(plainTargetId, originalUserId)
-                          if (targetMember?.name) targetDisplayName = targetMember.name
-                          else if (targetMember?.nick) targetDisplayName = targetMember.nick
-                        } catch (error) {
-                          if (ctx.config.debug) logger.info(`无法获取目标群昵称，使用源群昵称`)
-                        }
-                        
-                        fileInfoMessage = `${targetDisplayName} 发送了一个文件：\n${fileInfoMessage}`
-                      }
-                      
-                      // 发送文件信息
-                      const result = await session.bot.sendMessage(plainTargetId, fileInfoMessage)
-                      if (ctx.config.debug) logger.info(`文件信息发送返回结果:`, JSON.stringify(result, null, 2))
-                      
-                      if (result && result.length > 0) {
-                        successCount++
-                        if (ctx.config.debug) logger.info(`[成功] 文件信息已发送到 ${targetChannelId}`)
-                        continue
-                      } else {
-                        if (ctx.config.debug) logger.warn(`文件信息发送可能成功但未返回有效结果`)
-                        if (result !== null && result !== undefined) {
-                          successCount++
-                          if (ctx.config.debug) logger.info(`[成功] 文件信息可能已成功发送到 ${targetChannelId}`)
-                          continue
-                        }
-                      }
-                    } else {
-                      if (ctx.config.debug) logger.warn(`file元素没有attrs属性`)
-                    }
-                  } catch (error) {
-                    if (ctx.config.debug) logger.warn(`文件信息处理失败: ${error}`)
-                  }
-                }
-              }
-              
-              // 普通文本消息转发
-              if (ctx.config.debug) logger.info(`尝试普通文本转发到: ${targetChannelId}`)
-              const sentMessageIds = await ctx.broadcast([targetChannelId], finalMessage)
-              if (ctx.config.debug) logger.info(`普通转发broadcast返回的消息ID: ${JSON.stringify(sentMessageIds)}`)
-              if (sentMessageIds.length > 0) {
-                successCount++
-                if (ctx.config.debug) logger.info(`[成功] 消息已转发到 ${targetChannelId}`)
-              } else {
-                logger.warn(`[失败] 转发到频道 ${targetChannelId} 失败（Broadcast未返回ID）。`)
+              for (const message of converter.render(converted, rule.showOriginalSender ? rule : null, variables)) {
+                delivery.messageIds.push(...await resolver.send(targetChannelId, message, session, delivery))
               }
             } catch (error) {
-              logger.error(`[失败] 转发到频道 ${targetChannelId} 时发生错误:`, error)
+              if (converted.kind === 'text') throw error
+              // 合并转发、小程序或媒体发送失败时，回退为普通文本转发
+              if (ctx.config.debug) logger.warn(`(引用转发) ${converted.kind} 类型消息发送失败: ${error}，回退到文本模式`)
+              const fallbackContent = applyContentFilter(rule, h.parse(messageToSend)).elements
+              const fallback = rule.showOriginalSender ? renderTemplate(rule.template, variables, fallbackContent) : fallbackContent
+              delivery.messageIds.push(...await resolver.send(targetChannelId, fallback, session, delivery))
             }
+            if (delivery.messageIds.length > 0) {
+              delivery.success = true
+              delivery.error = undefined
+              successCount++
+              if (ctx.config.debug) logger.info(`[成功] 消息已转发到 ${targetChannelId}`)
+            } else {
+              logger.warn(`[失败] 转发到频道 ${targetChannelId} 失败（未返回消息ID）。`)
+              delivery.error = '未返回消息ID'
+            }
+          } catch (error) {
+            logger.error(`[失败] 转发到频道 ${targetChannelId} 时发生错误:`, error)
+            delivery.error = String(error)
           }
-          if (ctx.config.debug) logger.info(`(引用转发) 指令 "${rule.commandName}" 完成：成功 ${successCount}/${targets.length}`)
-          
-          // 根据配置决定是否发送成功消息
-          if (rule.showSuccessMessage) {
-            return successCount > 0 ? '消息已成功转发。' : '发送失败，请检查机器人权限与日志。'
-          }
-          // 不发送成功消息时，返回空字符串（不显示任何回复）
-          return ''
-        })
+        }
+        if (ctx.config.debug) logger.info(`(引用转发) 指令 "${rule.commandName}" 完成：成功 ${successCount}/${targets.length}`)
+        if (!successCount) dedup.release(ruleKey, fingerprint)
+        for (const delivery of deliveries) {
+          if (delivery.success) dedup.markDelivered(delivery.targetChannel, fingerprint)
+        }
+        await ledger.recordRelay(ctx, relaySource, deliveries)
+        
+        // 根据配置决定是否发送成功消息
+        if (rule.showSuccessMessage) {
+          return successCount > 0 ? '消息已成功转发。' : '发送失败，请检查机器人权限与日志。'
+        }
+        // 不发送成功消息时，返回空字符串（不显示任何回复）
+        return ''
+      })
+  }
+
+  // 动态添加或修改的引用转发规则无需重启即可注册或注销对应指令
+  const quotedRelayCommands = new Map<QuotedRelayRule, Command>()
+  function refreshQuotedRelayCommands() {
+    if (!config.quotedRelayEnabled) return
+    const current = rules.quotedRelayRules()
+    for (const [rule, command] of quotedRelayCommands) {
+      if (current.includes(rule)) continue
+      command.dispose()
+      quotedRelayCommands.delete(rule)
+    }
+    for (const rule of current) {
+      if (quotedRelayCommands.has(rule)) continue
+      // ctx.command 会返回同名的已有指令，注销时会连同原指令一起删除，因此同名时不注册
+      if (ctx.$commander.get(rule.commandName)) {
+        logger.warn(`引用转发指令「${rule.commandName}」与已有指令同名，已跳过。`)
+        continue
+      }
+      quotedRelayCommands.set(rule, registerQuotedRelayCommand(rule))
     }
   }
-}
\ No newline at end of file
+  // 配置中的引用转发指令不能与已有指令 (包括其他引用转发指令) 同名，否则直接拒绝启动
+  if (config.quotedRelayEnabled) {
+    const names = new Set<string>()
+    for (const rule of config.quotedRelayRules) {
+      if (names.has(rule.commandName) || ctx.$commander.get(rule.commandName)) {
+        throw new Error(`引用转发规则的指令名「${rule.commandName}」与已有指令同名。`)
+      }
+      names.add(rule.commandName)
+    }
+  }
+  refreshQuotedRelayCommands()
+  rules.subscribe(refreshQuotedRelayCommands)
+}
@@ -0,0 +1,133 @@
+import { Context } from 'koishi'
+import { enqueue } from './outbox'
+import { countStat } from './stats'
+import { channelKey, parseTarget } from './target'
+
+declare module 'koishi' {
+  interface Tables {
+    message_relay_record: RelayRecord
+  }
+}
+
+// 转发来源：monitor = 自动监控，quoted = 引用转发指令，manual = 传话筒，bridge = 双向桥接，reply = 跨群回复，digest = 摘要汇总
+export type RelayRuleType = 'monitor' | 'quoted' | 'manual' | 'bridge' | 'reply' | 'digest'
+
+// 转发台账中的一行：记录一条源消息被转发到某一个目标频道的结果
+export interface RelayRecord {
+  id: number
+  ruleType: RelayRuleType
+  // 触发的规则标识：监控规则为 userId，引用转发为 commandName，桥接为 name
+  ruleKey: string
+  platform: string
+  channelId: string
+  messageId: string
+  userId: string
+  // 触发这次转发的用户：指令转发为指令调用者，其余与 userId 相同
+  operatorId: string
+  // 目标频道 (带平台前缀，不含 @selfId 后缀)
+  targetChannel: string
+  // 发送副本的机器人账号
+  selfId: string
+  messageIds: string[]
+  success: boolean
+  error: string
+  createdAt: Date
+}
+
+export interface RelaySource {
+  ruleType: RelayRuleType
+  ruleKey: string
+  platform: string
+  channelId: string
+  messageId: string
+  userId: string
+  operatorId?: string
+}
+
+export interface RelayDelivery {
+  targetChannel: string
+  selfId?: string
+  messageIds: string[]
+  success: boolean
+  error?: string
+  // 发送抛出异常时首次尝试的内容 (媒体还原为源链接)，投递失败时会写入待重发队列
+  retryContent?: string
+}
+
+export function apply(ctx: Context) {
+  ctx.inject(['database'], (ctx) => {
+    ctx.model.extend('message_relay_record', {
+      id: 'unsigned',
+      ruleType: 'string(16)',
+      ruleKey: 'string(255)',
+      platform: 'string(64)',
+      channelId: 'string(255)',
+      messageId: 'string(255)',
+      userId: 'string(255)',
+      operatorId: 'string(255)',
+      targetChannel: 'string(255)',
+      selfId: 'string(255)',
+      messageIds: 'list',
+      success: 'boolean',
+      error: 'text',
+      createdAt: 'timestamp',
+    }, {
+      autoInc: true,
+    })
+  })
+}
+
+// 将一次转发的全部目标结果写入台账，失败且可重发的投递同时写入待重发队列；未启用数据库时静默跳过
+export async function recordRelay(ctx: Context, source: RelaySource, deliveries: RelayDelivery[]) {
+  if (!ctx.database || !deliveries.length) return
+  const createdAt = new Date()
+  try {
+    for (const delivery of deliveries) {
+      const record = await ctx.database.create('message_relay_record', {
+        ...source,
+        messageId: source.messageId ?? '',
+        operatorId: source.operatorId ?? source.userId,
+        targetChannel: channelKey(delivery.targetChannel),
+        selfId: delivery.selfId ?? parseTarget(delivery.targetChannel).selfId ?? '',
+        messageIds: delivery.messageIds,
+        success: delivery.success,
+        error: delivery.error ?? '',
+        createdAt,
+      })
+      countStat(ctx, source.ruleType, source.ruleKey, delivery.success ? 'relayed' : 'failed', channelKey(delivery.targetChannel))
+      if (!delivery.success && delivery.retryContent) {
+        await enqueue(ctx, record.id, delivery.targetChannel, delivery.retryContent, delivery.error ?? '')
+      }
+    }
+  } catch (error) {
+    ctx.logger('message-relay').warn('写入转发记录失败:', error)
+  }
+}
+
+// 查询某条源消息被转发到了哪些频道
+export async function findRelaysBySource(ctx: Context, platform: string, channelId: string, messageId: string) {
+  if (!ctx.database || !messageId) return []
+  return ctx.database.get('message_relay_record', { platform, channelId, messageId })
+}
+
+// 通过目标频道中转发副本的消息 ID 反查源消息
+export async function findRelayByCopy(ctx: Context, targetChannel: string, messageId: string) {
+  if (!ctx.database || !messageId) return
+  const [record] = await ctx.database.get('message_relay_record', {
+    targetChannel,
+    messageIds: { $el: messageId },
+  })
+  return record
+}
+
+// 转发副本被撤回或重发后，同步更新台账中的消息 ID
+export async function updateRelayCopies(ctx: Context, id: number, messageIds: string[]) {
+  if (!ctx.database) return
+  await ctx.database.set('message_relay_record', id, { messageIds })
+}
+
+// 待重发的投递最终送达后，回写台账中的结果
+export async function markRelayDelivered(ctx: Context, id: number, messageIds: string[]) {
+  if (!ctx.database) return
+  await ctx.database.set('message_relay_record', id, { messageIds, success: true, error: '' })
+}
@@ -0,0 +1,74 @@
+import { Bot, Context, Session, Time, Universal } from 'koishi'
+import type { Config } from './index'
+
+interface CacheEntry<T> {
+  expires: number
+  value: Promise<T>
+}
+
+// 群成员与群信息缓存：所有转发路径共用，按 TTL 过期，并在成员或群信息变化时失效
+// 查询失败的结果同样缓存，避免对不在群中的用户反复请求；同一键的并发查询只会发出一次请求
+export function createLookupCache(ctx: Context, config: Config) {
+  const members = new Map<string, CacheEntry<Universal.GuildMember>>()
+  const guilds = new Map<string, CacheEntry<Universal.Guild>>()
+
+  function cached<T>(store: Map<string, CacheEntry<T>>, key: string, load: () => Promise<T>) {
+    const entry = store.get(key)
+    if (entry && entry.expires > Date.now()) return entry.value
+    const value = load()
+    // 未设置 TTL 时仍然合并并发查询，查询结束后立即失效
+    const expires = config.lookupCacheTTL ? Date.now() + config.lookupCacheTTL * Time.second : Infinity
+    store.set(key, { expires, value })
+    value.catch(() => {}).finally(() => {
+      if (!config.lookupCacheTTL && store.get(key)?.value === value) store.delete(key)
+    })
+    return value
+  }
+
+  function getGuildMember(bot: Bot, guildId: string, userId: string) {
+    return cached(members, `${bot.platform}:${guildId}:${userId}`, () => bot.getGuildMember(guildId, userId))
+  }
+
+  function getGuild(bot: Bot, guildId: string) {
+    return cached(guilds, `${bot.platform}:${guildId}`, () => bot.getGuild(guildId))
+  }
+
+  // 用户在群中的显示名称，获取失败时返回 undefined
+  async function getDisplayName(bot: Bot, guildId: string, userId: string) {
+    try {
+      const member = await getGuildMember(bot, guildId, userId)
+      return member?.name || member?.nick || undefined
+    } catch {}
+  }
+
+  function sweep() {
+    const now = Date.now()
+    for (const store of [members, guilds] as Map<string, CacheEntry<unknown>>[]) {
+      for (const [key, entry] of store) {
+        if (entry.expires <= now) store.delete(key)
+      }
+    }
+  }
+
+  function invalidateMember(session: Session) {
+    members.delete(`${session.platform}:${session.guildId}:${session.userId}`)
+  }
+
+  ctx.on('guild-member-updated', invalidateMember)
+  ctx.on('guild-member-added', invalidateMember)
+  ctx.on('guild-member-removed', invalidateMember)
+  ctx.on('guild-updated', (session) => {
+    guilds.delete(`${session.platform}:${session.guildId}`)
+  })
+
+  ctx.setInterval(sweep, Time.minute)
+
+  ctx.on('dispose', () => {
+    members.clear()
+    guilds.clear()
+  })
+
+  return { getGuildMember, getGuild, getDisplayName }
+}
+
+export type LookupCache = ReturnType<typeof createLookupCache>
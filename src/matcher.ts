@@ -0,0 +1,144 @@
+import { h } from 'koishi'
+
+// 关键词匹配范围：text = 仅匹配纯文本，elements = 同时匹配元素占位文本与 type: 元素类型条件
+export type MatchScope = 'text' | 'elements'
+
+export interface MatchOptions {
+  scope: MatchScope
+  // 忽略大小写与全角/半角差异
+  loose: boolean
+}
+
+interface Term {
+  negate: boolean
+  test(text: string, elements: h[]): boolean
+}
+
+export interface KeywordMatcher {
+  match(elements: h[], richText: string): boolean
+}
+
+// NFKC 无法归一化的中文标点
+const PUNCTUATION_MAP: Record<string, string> = {
+  '。': '.',
+  '、': ',',
+  '“': '"',
+  '”': '"',
+  '‘': '\'',
+  '’': '\'',
+  '「': '"',
+  '」': '"',
+  '『': '"',
+  '』': '"',
+  '【': '[',
+  '】': ']',
+  '《': '<',
+  '》': '>',
+  '〈': '<',
+  '〉': '>',
+  '—': '-',
+}
+
+const TYPE_ALIASES: Record<string, string[]> = {
+  img: ['img', 'image'],
+  image: ['img', 'image'],
+  audio: ['audio', 'record'],
+  record: ['audio', 'record'],
+}
+
+export function normalizeText(text: string) {
+  return text
+    .normalize('NFKC')
+    .replace(/[。、“”‘’「」『』【】《》〈〉—]/g, char => PUNCTUATION_MAP[char])
+    .toLowerCase()
+}
+
+// 仅提取消息中的纯文本部分
+export function extractPlainText(elements: h[]) {
+  if (!Array.isArray(elements)) return ''
+  return h.select(elements, 'text').map(el => el.attrs.content ?? '').join('')
+}
+
+function parseRegExp(source: string, options: MatchOptions) {
+  const capture = /^\/(.+)\/([a-z]*)$/.exec(source)
+  if (!capture) return
+  // g / y 会让 RegExp#test 变成有状态的，直接丢弃
+  let flags = capture[2].replace(/[gy]/g, '')
+  if (options.loose && !flags.includes('i')) flags += 'i'
+  try {
+    return new RegExp(capture[1], flags)
+  } catch (error) {
+    throw new Error(`无效的正则表达式 "${source}": ${error.message}`)
+  }
+}
+
+function parseTerm(source: string, options: MatchOptions): Term {
+  let negate = false
+  if (source.startsWith('-') && source.length > 1) {
+    negate = true
+    source = source.slice(1)
+  } else if (source.startsWith('\\-')) {
+    source = source.slice(1)
+  }
+  if (!source) throw new Error('关键词不能为空')
+
+  if (source.startsWith('type:')) {
+    if (options.scope !== 'elements') {
+      throw new Error(`元素类型条件 "${source}" 仅在匹配范围为「文本与元素」时可用`)
+    }
+    const type = source.slice(5).trim()
+    if (!type) throw new Error(`元素类型条件 "${source}" 缺少类型名称`)
+    const types = TYPE_ALIASES[type] ?? [type]
+    return { negate, test: (_, elements) => elements.some(el => types.includes(el.type)) }
+  }
+
+  const regexp = parseRegExp(source, options)
+  if (regexp) {
+    return { negate, test: text => regexp.test(options.loose ? normalizeText(text) : text) }
+  }
+
+  const keyword = options.loose ? normalizeText(source) : source
+  return { negate, test: text => (options.loose ? normalizeText(text) : text).includes(keyword) }
+}
+
+// 将一个关键词条目拆分为 AND 组；整体为正则字面量时不做拆分
+function parseEntry(entry: string, options: MatchOptions) {
+  const trimmed = entry.trim()
+  if (/^-?\/.+\/[a-z]*$/.test(trimmed)) return [parseTerm(trimmed, options)]
+  return trimmed.split('&').map(part => parseTerm(part.trim(), options))
+}
+
+/**
+ * 编译关键词列表，语法错误时抛出异常。
+ *
+ * - `word`：包含该词
+ * - `/pattern/flags`：正则匹配
+ * - `-word`：排除，包含该词的消息一律不匹配
+ * - `a&b&-c`：AND 组，需同时满足
+ * - `type:img`：包含指定类型的元素 (仅在 elements 范围内可用)
+ *
+ * 多个条目之间为 OR 关系；仅有排除条目时，其余消息全部匹配。
+ */
+export function compileKeywords(keywords: string[], options: MatchOptions): KeywordMatcher {
+  const exclusions: Term[] = []
+  const groups: Term[][] = []
+  for (const entry of keywords ?? []) {
+    if (!entry?.trim()) continue
+    const group = parseEntry(entry, options)
+    if (group.length === 1 && group[0].negate) {
+      exclusions.push(group[0])
+    } else {
+      groups.push(group)
+    }
+  }
+
+  return {
+    match(elements, richText) {
+      elements = Array.isArray(elements) ? elements : []
+      const text = options.scope === 'elements' ? richText : extractPlainText(elements)
+      if (exclusions.some(term => term.test(text, elements))) return false
+      if (!groups.length) return true
+      return groups.some(group => group.every(term => term.negate !== term.test(text, elements)))
+    },
+  }
+}
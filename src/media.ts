@@ -0,0 +1,300 @@
+import { Context, Time, h } from 'koishi'
+import { createHash } from 'crypto'
+import type { Config } from './index'
+
+export type MediaKind = 'image' | 'video' | 'audio' | 'file'
+
+export interface MediaResource {
+  url: string
+  mime: string
+  size: number
+  // 内容的 sha1，用于跨 URL 识别同一份媒体
+  hash: string
+  dataUrl: string
+}
+
+// 已内联的语音、文件元素对应的原始信息，目标平台拒收时用于生成替代内容
+interface MediaSource {
+  kind: MediaKind
+  url: string
+  name?: string
+  size?: number
+}
+
+interface CacheEntry {
+  expires: number
+  promise: Promise<MediaResource>
+  // 下载完成后内联数据的大小，用于限制缓存总大小
+  size?: number
+}
+
+// 媒体下载失败或超出限制时的兜底方式：placeholder = 占位文本，link = 占位文本加原始链接
+export type MediaFallback = 'placeholder' | 'link'
+
+const PLACEHOLDERS: Record<MediaKind, string> = {
+  image: '[图片]',
+  video: '[视频]',
+  audio: '[语音]',
+  file: '[文件]',
+}
+
+export function formatSize(bytes: number) {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} MB`
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(2)} KB`
+  return `${bytes} B`
+}
+
+// MIME类型检测函数
+export function getMimeType(buffer: Buffer): string {
+  if (buffer.length < 4) return 'application/octet-stream'
+
+  const header = buffer.toString('hex', 0, 4)
+  if (header.startsWith('89504e47')) return 'image/png'
+  if (header.startsWith('ffd8ff')) return 'image/jpeg'
+  if (header.startsWith('47494638')) return 'image/gif'
+  if (buffer.toString('ascii', 0, 4) === 'RIFF') return 'image/webp'
+
+  // 视频格式检测
+  if (header.startsWith('00000020') || header.startsWith('00000018')) return 'video/mp4'
+  if (header.startsWith('1a45dfa3')) return 'video/webm'
+
+  // 音频格式检测
+  if (header.startsWith('494433') || header.startsWith('fff3') || header.startsWith('fff2')) return 'audio/mpeg'
+  if (header.startsWith('4f676753')) return 'audio/ogg'
+
+  return 'application/octet-stream'
+}
+
+export function getMediaKind(element: h): MediaKind | undefined {
+  if (['img', 'image', 'mface'].includes(element.type)) return 'image'
+  if (element.type === 'video') return 'video'
+  if (['audio', 'record'].includes(element.type)) return 'audio'
+  if (element.type === 'file') return 'file'
+}
+
+function getFileName(element: h): string | undefined {
+  return element.attrs.name || element.attrs.title || element.attrs.file
+}
+
+// 媒体管线：同一条消息的每个资源 (图片、视频、语音、文件) 只下载一次，按类型限制大小与超时，并按 URL 缓存
+export function createMediaPipeline(ctx: Context, config: Config) {
+  const logger = ctx.logger('message-relay')
+  const cache = new Map<string, CacheEntry>()
+  const waiting: (() => void)[] = []
+  const sources = new WeakMap<h, MediaSource>()
+  // 已内联的元素对应的原始元素 (带有源链接)，用于还原后持久化
+  const originals = new WeakMap<h, h>()
+  let active = 0
+
+  const limits: Record<MediaKind, { maxSize: number, timeout: number }> = {
+    image: { maxSize: config.mediaImageMaxSize, timeout: config.mediaImageTimeout },
+    video: { maxSize: config.mediaVideoMaxSize, timeout: config.mediaVideoTimeout },
+    audio: { maxSize: config.mediaAudioMaxSize, timeout: config.mediaAudioTimeout },
+    file: { maxSize: config.mediaFileMaxSize, timeout: config.mediaFileTimeout },
+  }
+
+  async function acquire() {
+    if (active >= Math.max(1, config.mediaConcurrency)) {
+      await new Promise<void>(resolve => waiting.push(resolve))
+    }
+    active++
+  }
+
+  function release() {
+    active--
+    waiting.shift()?.()
+  }
+
+  function sweep() {
+    const now = Date.now()
+    for (const [url, entry] of cache) {
+      // 下载中的条目尚未开始计时，不会被清理
+      if (entry.size !== undefined && entry.expires <= now) cache.delete(url)
+    }
+  }
+
+  // 缓存按最近使用的顺序排列，总大小超出上限时淘汰最久未使用的资源；下载中的条目不参与淘汰
+  function trim() {
+    const maxBytes = config.mediaCacheMaxSize * 1024 * 1024
+    if (!maxBytes) return
+    let total = 0
+    for (const entry of cache.values()) total += entry.size ?? 0
+    for (const [url, entry] of cache) {
+      if (total <= maxBytes) break
+      if (!entry.size) continue
+      cache.delete(url)
+      total -= entry.size
+    }
+  }
+
+  // 边接收边计数，超出上限时立即中止下载，不会把超大的响应体读入内存
+  function readLimited(maxSize: number) {
+    const maxBytes = maxSize * 1024 * 1024
+    return async (raw: Response) => {
+      const declared = Number(raw.headers.get('content-length'))
+      if (maxBytes && declared > maxBytes) {
+        await raw.body?.cancel()
+        throw new Error(`大小 ${declared} 字节超出上限 ${maxSize} MB`)
+      }
+      if (!raw.body) return Buffer.alloc(0)
+      const reader = raw.body.getReader()
+      const chunks: Buffer[] = []
+      let received = 0
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        received += value.length
+        if (maxBytes && received > maxBytes) {
+          await reader.cancel()
+          throw new Error(`已接收 ${received} 字节，超出上限 ${maxSize} MB，已中止下载`)
+        }
+        chunks.push(Buffer.from(value))
+      }
+      return Buffer.concat(chunks, received)
+    }
+  }
+
+  async function download(url: string, kind: MediaKind): Promise<MediaResource> {
+    const { maxSize, timeout } = limits[kind]
+    await acquire()
+    try {
+      // 超时同样覆盖读取响应体的过程
+      const response = await ctx.http(url, { method: 'GET', responseType: readLimited(maxSize), timeout })
+      const buffer: Buffer = response.data
+      const mime = getMimeType(buffer)
+      if (config.debug) logger.info(`下载完成: ${mime}, 大小: ${buffer.length}, 当前并发: ${active}`)
+      return {
+        url,
+        mime,
+        size: buffer.length,
+        hash: createHash('sha1').update(buffer).digest('hex'),
+        dataUrl: `data:${mime};base64,${buffer.toString('base64')}`,
+      }
+    } finally {
+      release()
+    }
+  }
+
+  // 下载失败时返回 undefined；失败的结果不会被缓存
+  async function load(url: string, kind: MediaKind): Promise<MediaResource | undefined> {
+    sweep()
+    let entry = cache.get(url)
+    if (!entry) {
+      const created: CacheEntry = entry = { expires: Infinity, promise: download(url, kind) }
+      cache.set(url, created)
+      // 缓存时间从下载完成时开始计算
+      created.promise.then((resource) => {
+        created.expires = Date.now() + config.mediaCacheTTL * 1000
+        created.size = resource.dataUrl.length
+        trim()
+      }, () => {})
+    } else {
+      cache.delete(url)
+      cache.set(url, entry)
+      if (config.debug) logger.info(`命中媒体缓存: ${url}`)
+    }
+    try {
+      return await entry.promise
+    } catch (error) {
+      cache.delete(url)
+      logger.warn(`下载${PLACEHOLDERS[kind]}失败: ${error.message}`)
+    }
+  }
+
+  function describe({ kind, name, size }: Omit<MediaSource, 'url'>) {
+    if (kind !== 'file' && kind !== 'audio') return PLACEHOLDERS[kind]
+    const details = [name, size ? formatSize(size) : ''].filter(Boolean).join(', ')
+    return details ? `${PLACEHOLDERS[kind].slice(0, -1)}：${details}]` : PLACEHOLDERS[kind]
+  }
+
+  function withLink(placeholder: string, url?: string) {
+    if (config.mediaFallback === 'link' && url) return h.text(`${placeholder} ${url}`)
+    return h.text(placeholder)
+  }
+
+  function fallback(element: h, kind: MediaKind, url?: string, size?: number) {
+    const placeholder = element.type === 'mface'
+      ? element.attrs.summary || '[表情包]'
+      : describe({ kind, name: getFileName(element), size })
+    return withLink(placeholder, url)
+  }
+
+  function inline(element: h, kind: MediaKind, resource: MediaResource) {
+    switch (kind) {
+      case 'video': return h.video(resource.dataUrl)
+      case 'audio': return h.audio(resource.dataUrl)
+      case 'file': return h.file(resource.dataUrl, { title: getFileName(element) })
+      default: return h.image(resource.dataUrl)
+    }
+  }
+
+  // 将消息中的媒体元素替换为内联数据，合并转发等嵌套元素中的媒体同样处理；每个资源只下载一次，结果可供所有目标频道复用
+  async function prepare(elements: h[]): Promise<h[]> {
+    if (!Array.isArray(elements)) return []
+    return Promise.all(elements.map(async (element) => {
+      const kind = getMediaKind(element)
+      if (!kind) {
+        if (!element.children?.length) return element
+        return h(element.type, element.attrs, await prepare(element.children))
+      }
+      const url: string = element.attrs.url || element.attrs.src
+      // 已经内联的媒体无需再次下载
+      if (url?.startsWith('data:')) return element
+      if (!url) {
+        if (config.debug) logger.warn(`元素缺少URL: ${element.type}`)
+        return fallback(element, kind)
+      }
+      // 源平台已给出大小时，超限的资源无需下载
+      const declared = Number(element.attrs.fileSize ?? element.attrs.size) || undefined
+      const { maxSize } = limits[kind]
+      if (maxSize && declared > maxSize * 1024 * 1024) {
+        if (config.debug) logger.info(`${PLACEHOLDERS[kind]}大小 ${declared} 字节超出上限 ${maxSize} MB，跳过下载`)
+        return fallback(element, kind, url, declared)
+      }
+      const resource = await load(url, kind)
+      if (!resource) return fallback(element, kind, url, declared)
+      const result = inline(element, kind, resource)
+      originals.set(result, element)
+      if (kind === 'audio' || kind === 'file') {
+        sources.set(result, { kind, url, name: getFileName(element), size: resource.size })
+      }
+      return result
+    }))
+  }
+
+  // 将已内联的语音、文件替换为链接或元数据文本；没有可替换的元素时返回 undefined
+  function degrade(elements: h[]): h[] | undefined {
+    let changed = false
+    function walk(elements: h[]): h[] {
+      return elements.map((element) => {
+        const source = sources.get(element)
+        if (source) {
+          changed = true
+          return withLink(describe(source), source.url)
+        }
+        if (!element.children?.length) return element
+        return h(element.type, element.attrs, walk(element.children))
+      })
+    }
+    const result = walk(elements)
+    return changed ? result : undefined
+  }
+
+  // 将已内联的媒体还原为带有源链接的原始元素，写入数据库的内容不包含内联数据，发送前需要重新 prepare
+  function restore(elements: h[]): h[] {
+    return elements.map((element) => {
+      const original = originals.get(element)
+      if (original) return original
+      if (!element.children?.length) return element
+      return h(element.type, element.attrs, restore(element.children))
+    })
+  }
+
+  ctx.setInterval(sweep, Time.minute)
+
+  ctx.on('dispose', () => cache.clear())
+
+  return { load, prepare, degrade, restore }
+}
+
+export type MediaPipeline = ReturnType<typeof createMediaPipeline>
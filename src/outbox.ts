@@ -0,0 +1,162 @@
+import { Context, Time, h } from 'koishi'
+import type { Config } from './index'
+import * as ledger from './ledger'
+import type { MediaPipeline } from './media'
+import type { TargetResolver } from './target'
+import { previewContent } from './template'
+
+declare module 'koishi' {
+  interface Tables {
+    message_relay_outbox: OutboxEntry
+  }
+}
+
+// pending = 等待重试，dead = 已达到重试上限，需要手动处理
+export type OutboxStatus = 'pending' | 'dead'
+
+// 待重发队列中的一条：某次转发到某个目标频道失败时最后一次尝试发送的内容
+export interface OutboxEntry {
+  id: number
+  // 对应的转发记录 (message_relay_record) ID，重发成功后回写
+  recordId: number
+  // 目标频道 (带平台前缀，可带 @selfId)
+  target: string
+  // 已按目标平台适配的消息元素，序列化为字符串；媒体保留为源链接，重发时再下载
+  content: string
+  // 已重试的次数 (不含最初的那次发送)
+  attempts: number
+  lastAttempt: Date
+  status: OutboxStatus
+  error: string
+  createdAt: Date
+}
+
+// 写入待重发队列；由转发记录在写入失败的投递时调用，未启用数据库时静默跳过
+export async function enqueue(ctx: Context, recordId: number, target: string, content: string, error: string) {
+  if (!ctx.database) return
+  const now = new Date()
+  await ctx.database.create('message_relay_outbox', {
+    recordId,
+    target,
+    content,
+    attempts: 0,
+    lastAttempt: now,
+    status: 'pending',
+    error,
+    createdAt: now,
+  })
+}
+
+// 失败投递的持久化重发：按指数退避重试，达到上限后转为死信，等待手动重试或丢弃
+export function applyOutbox(ctx: Context, config: Config, resolver: TargetResolver, media: MediaPipeline) {
+  const logger = ctx.logger('message-relay')
+  let flushing = false
+
+  function backoff(attempts: number) {
+    return config.retryBaseDelay * Time.second * 2 ** attempts
+  }
+
+  async function retry(entry: OutboxEntry) {
+    const attempts = entry.attempts + 1
+    try {
+      const messageIds = await resolver.deliver(entry.target, await media.prepare(h.parse(entry.content)))
+      await ledger.markRelayDelivered(ctx, entry.recordId, messageIds)
+      await ctx.database.remove('message_relay_outbox', { id: entry.id })
+      logger.info(`[成功] (重发) 第 ${attempts} 次重试已将消息送达 ${entry.target}`)
+      return true
+    } catch (error) {
+      const status: OutboxStatus = attempts >= config.retryLimit ? 'dead' : 'pending'
+      await ctx.database.set('message_relay_outbox', entry.id, {
+        attempts,
+        lastAttempt: new Date(),
+        status,
+        error: String(error),
+      })
+      if (status === 'dead') {
+        logger.warn(`[失败] (重发) 转发到频道 ${entry.target} 已重试 ${attempts} 次，转入死信队列 #${entry.id}:`, error)
+      } else if (config.debug) {
+        logger.info(`(重发) 第 ${attempts} 次重试 ${entry.target} 失败，${backoff(attempts) / Time.second} 秒后再次尝试。`)
+      }
+      return false
+    }
+  }
+
+  async function flush() {
+    if (flushing) return
+    flushing = true
+    try {
+      const now = Date.now()
+      const entries = await ctx.database.get('message_relay_outbox', { status: 'pending' })
+      const due = entries.filter(entry => entry.lastAttempt.getTime() + backoff(entry.attempts) <= now)
+      if (config.debug && entries.length) logger.info(`(重发) 待重发 ${entries.length} 条，本轮到期 ${due.length} 条。`)
+      for (const entry of due) {
+        // 重试上限可能被调低 (为 0 时不自动重试)，超出的直接转为死信
+        if (entry.attempts >= config.retryLimit) {
+          await ctx.database.set('message_relay_outbox', entry.id, { status: 'dead' })
+          continue
+        }
+        await retry(entry)
+      }
+    } catch (error) {
+      logger.warn('(重发) 处理待重发队列失败:', error)
+    } finally {
+      flushing = false
+    }
+  }
+
+  function describeEntry(entry: OutboxEntry) {
+    const time = Time.template('yyyy-MM-dd hh:mm:ss', entry.createdAt)
+    return `#${entry.id} → ${entry.target} (${time}，已重试 ${entry.attempts} 次)\n  内容：${previewContent(entry.content)}\n  原因：${entry.error || '未知'}`
+  }
+
+  ctx.inject(['database'], (ctx) => {
+    ctx.model.extend('message_relay_outbox', {
+      id: 'unsigned',
+      recordId: 'unsigned',
+      target: 'string(255)',
+      content: 'text',
+      attempts: 'unsigned',
+      lastAttempt: 'timestamp',
+      status: 'string(16)',
+      error: 'text',
+      createdAt: 'timestamp',
+    }, {
+      autoInc: true,
+    })
+
+    // 插件重启后会从数据库中继续处理未完成的重发
+    ctx.setInterval(flush, 10 * Time.second)
+
+    ctx.command('传声筒.outbox [status:string]', '查看转发失败的待重发队列', { authority: config.ruleCommandAuthLevel })
+      .action(async (_, status) => {
+        if (status && !['pending', 'dead'].includes(status)) return `错误：未知的状态 "${status}"。可用状态：pending、dead。`
+        const entries = await ctx.database.get('message_relay_outbox', status ? { status: status as OutboxStatus } : {})
+        if (!entries.length) return '待重发队列为空。'
+        const pending = entries.filter(entry => entry.status === 'pending')
+        const dead = entries.filter(entry => entry.status === 'dead')
+        const sections: string[] = []
+        if (pending.length) sections.push(`等待重试：\n${pending.map(describeEntry).join('\n')}`)
+        if (dead.length) sections.push(`死信 (已达重试上限)：\n${dead.map(describeEntry).join('\n')}`)
+        return sections.join('\n')
+      })
+
+    ctx.command('传声筒.outbox.retry [id:posint]', '立即重试待重发的转发，不指定编号时重试全部死信', { authority: config.ruleCommandAuthLevel })
+      .action(async (_, id) => {
+        const entries = await ctx.database.get('message_relay_outbox', id ? { id } : { status: 'dead' })
+        if (!entries.length) return id ? `错误：找不到待重发记录 #${id}。` : '没有需要重试的死信。'
+        let successCount = 0
+        for (const entry of entries) {
+          // 手动重试重新计算次数，失败后按正常流程继续退避重试
+          if (await retry({ ...entry, attempts: 0 })) successCount++
+        }
+        return `已重试 ${entries.length} 条，成功 ${successCount} 条。`
+      })
+
+    ctx.command('传声筒.outbox.discard [id:posint]', '丢弃待重发的转发，不指定编号时丢弃全部死信', { authority: config.ruleCommandAuthLevel })
+      .action(async (_, id) => {
+        const result = await ctx.database.remove('message_relay_outbox', id ? { id } : { status: 'dead' })
+        if (!result.matched) return id ? `错误：找不到待重发记录 #${id}。` : '没有需要丢弃的死信。'
+        return `已丢弃 ${result.matched} 条待重发记录。`
+      })
+  })
+}
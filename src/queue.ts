@@ -0,0 +1,62 @@
+import { Context, Random } from 'koishi'
+import type { Config } from './index'
+
+interface TargetQueue {
+  tasks: (() => Promise<void>)[]
+  running: boolean
+  lastSent: number
+}
+
+// 发送队列：所有出站消息按目标频道排队，保证同一频道内的顺序，并限制单频道与全局的发送频率
+export function createSendQueue(ctx: Context, config: Config) {
+  const logger = ctx.logger('message-relay')
+  const queues = new Map<string, TargetQueue>()
+  // 下一次允许任意频道发送的最早时间
+  let globalNext = 0
+
+  function depth() {
+    let total = 0
+    for (const queue of queues.values()) total += queue.tasks.length + (queue.running ? 1 : 0)
+    return total
+  }
+
+  // 预约下一个发送时间点；预约在等待前完成，避免多个频道同时抢到同一个全局时间窗
+  function reserve(queue: TargetQueue) {
+    const now = Date.now()
+    const jitter = config.sendJitter ? Random.int(0, config.sendJitter + 1) : 0
+    const at = Math.max(now, queue.lastSent + config.targetSendInterval, globalNext) + jitter
+    globalNext = at + config.globalSendInterval
+    return at - now
+  }
+
+  async function drain(key: string, queue: TargetQueue) {
+    queue.running = true
+    try {
+      while (queue.tasks.length) {
+        const wait = reserve(queue)
+        if (wait > 0) await ctx.sleep(wait)
+        const task = queue.tasks.shift()
+        await task()
+        queue.lastSent = Date.now()
+      }
+    } finally {
+      queue.running = false
+      if (!queue.tasks.length) queues.delete(key)
+    }
+  }
+
+  function schedule<T>(key: string, callback: () => Promise<T>): Promise<T> {
+    let queue = queues.get(key)
+    if (!queue) queues.set(key, queue = { tasks: [], running: false, lastSent: 0 })
+    const result = new Promise<T>((resolve, reject) => {
+      queue.tasks.push(() => callback().then(resolve, reject))
+    })
+    if (config.debug) logger.info(`(发送队列) ${key} 排队 ${queue.tasks.length} 条，全部队列共 ${depth()} 条`)
+    if (!queue.running) drain(key, queue).catch((error) => logger.warn(`(发送队列) ${key} 已中止:`, error))
+    return result
+  }
+
+  return { schedule, depth }
+}
+
+export type SendQueue = ReturnType<typeof createSendQueue>
@@ -0,0 +1,55 @@
+import { Context, Session, h } from 'koishi'
+import type { Config } from './index'
+import * as ledger from './ledger'
+import { isOwnMessage } from './bridge'
+import { ContentFilter } from './filter'
+import { RuleStore } from './rules'
+import { createTemplateVariables, renderTemplate } from './template'
+import { TargetResolver } from './target'
+
+// 跨群回复：目标群中有人引用了自动监控转发的副本时，将回复以引用原消息的形式送回源群；回复内容经过该监控规则的内容过滤
+export function createReplyRelay(ctx: Context, config: Config, rules: RuleStore, resolver: TargetResolver, contentFilter: ContentFilter) {
+  const logger = ctx.logger('message-relay')
+
+  async function handle(session: Session) {
+    const quotedId = session.quote?.id
+    if (!quotedId) return
+    if (isOwnMessage(ctx, session)) return
+    if (!rules.monitoringRules().some(rule => rule.relayReplies)) return
+
+    const fullSessionChannelId = `${session.platform}:${session.channelId}`
+    const record = await ledger.findRelayByCopy(ctx, fullSessionChannelId, quotedId)
+    if (!record || record.ruleType !== 'monitor') return
+    const rule = rules.monitoringRules().find(rule => rule.userId === record.ruleKey)
+    if (!rule?.relayReplies) return
+
+    const elements = await contentFilter.filter('reply', rule.userId, rule, session, session.elements ?? h.parse(session.content ?? ''))
+    if (!elements) return
+    const sourceChannel = `${record.platform}:${record.channelId}`
+    const senderDisplayName = session.author?.nick || session.author?.name || session.username || session.userId
+    const templateVariables = await createTemplateVariables(session, [rule.replyTemplate], { sender: senderDisplayName }, resolver.lookup)
+    const content: h[] = [
+      h.quote(record.messageId),
+      ...renderTemplate(rule.replyTemplate, templateVariables, elements),
+    ]
+    const delivery = resolver.createDelivery(sourceChannel, session)
+    try {
+      delivery.messageIds = await resolver.send(sourceChannel, content, session, delivery)
+      delivery.success = delivery.messageIds.length > 0
+      if (config.debug) logger.info(`(跨群回复) 已将 ${fullSessionChannelId} 中的回复送回源频道 ${sourceChannel}`)
+    } catch (error) {
+      logger.error(`[失败] (跨群回复) 回复送回源频道 ${sourceChannel} 时发生错误:`, error)
+      delivery.error = String(error)
+    }
+    await ledger.recordRelay(ctx, {
+      ruleType: 'reply',
+      ruleKey: rule.userId,
+      platform: session.platform,
+      channelId: session.channelId,
+      messageId: session.messageId,
+      userId: session.userId,
+    }, [delivery])
+  }
+
+  return { handle }
+}
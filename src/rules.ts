@@ -0,0 +1,434 @@
+import { Context, Schema } from 'koishi'
+import type { Config } from './index'
+import { AccessOptions } from './access'
+import { DedupOptions } from './dedup'
+import { ContentFilterOptions, compileRedactPatterns } from './filter'
+import { MatchScope, compileKeywords } from './matcher'
+import { DEFAULT_TEMPLATE } from './template'
+
+declare module 'koishi' {
+  interface Tables {
+    message_relay_rule: RuleEntry
+  }
+}
+
+export interface MonitoringRule extends DedupOptions, ContentFilterOptions {
+  userId: string
+  keywords: string[]
+  keywordScope: MatchScope
+  looseMatch: boolean
+  relayTargetChannels: string[]
+  sourceChannels: string[]
+  excludedSourceChannels: string[]
+  allowPrivate: boolean
+  syncRecall: boolean
+  syncEdit: boolean
+  relayReplies: boolean
+  digestMode: boolean
+  digestInterval: number
+  digestMaxCount: number
+  template: string
+  replyTemplate: string
+}
+
+export const MonitoringRule: Schema<MonitoringRule> = Schema.intersect([Schema.object({
+  userId: Schema.string().description('被监控用户的完整 ID (需要带平台前缀，如 onebot:12345678)。多个用户用逗号分隔；* 或 onebot:* 表示所有人。'),
+  keywords: Schema.array(Schema.string()).description('触发转发的关键词列表 (留空则转发该用户所有消息)。支持 /正则/、-排除词、a&b 组合与 type:img 元素条件。'),
+  keywordScope: Schema.union([
+    Schema.const('text').description('仅文本'),
+    Schema.const('elements').description('文本与元素'),
+  ]).default('text').description('关键词匹配范围：仅匹配纯文本，或同时匹配图片等元素。'),
+  looseMatch: Schema.boolean().default(false).description('匹配时忽略大小写与全角/半角差异。'),
+  relayTargetChannels: Schema.array(Schema.string()).role('channel').description('该用户消息的目标转发频道列表 (需要带平台前缀，如 onebot:12345678)。'),
+  sourceChannels: Schema.array(Schema.string()).role('channel').default([]).description('仅监控这些来源频道中的消息 (留空则不限制)。'),
+  excludedSourceChannels: Schema.array(Schema.string()).role('channel').default([]).description('不监控这些来源频道中的消息。'),
+  allowPrivate: Schema.boolean().default(true).description('是否监控私聊消息。'),
+  syncRecall: Schema.boolean().default(false).description('源消息撤回时，同步撤回已转发的副本 (需要数据库)。'),
+  syncEdit: Schema.boolean().default(false).description('源消息编辑时，同步更新已转发的副本 (需要数据库)。'),
+  relayReplies: Schema.boolean().default(false).description('目标群中引用转发副本的回复，将以引用原消息的形式送回源群 (需要数据库)。'),
+  dedupWindow: Schema.number().min(0).default(0).description('去重时间窗口，单位秒。窗口内相同内容 (文本规范化后比较，媒体按内容比较) 只转发一次，0 表示不去重。'),
+  dedupAcrossRules: Schema.boolean().default(false).description('在去重时间窗口内，跳过已从其他规则收到相同内容的目标频道。'),
+  digestMode: Schema.boolean().default(false).description('摘要模式：缓冲匹配到的消息，定期汇总为一条合并转发发送 (启用数据库时缓冲区在重启后保留)。'),
+  digestInterval: Schema.number().min(1).default(300).description('摘要模式下，最早一条缓冲消息等待多久后发送汇总，单位秒。'),
+  digestMaxCount: Schema.number().min(1).default(20).description('摘要模式下，缓冲消息达到该条数时立即发送汇总。'),
+  template: Schema.string().role('textarea').default(DEFAULT_TEMPLATE).description('转发消息模板，可用占位符见文档。'),
+  replyTemplate: Schema.string().role('textarea').default('{sender} (来自 {guildName})：{content}').description('跨群回复送回源群时的消息模板。'),
+}), ContentFilterOptions])
+
+export interface QuotedRelayRule extends DedupOptions, ContentFilterOptions, AccessOptions {
+  commandName: string
+  targetChannels: string[]
+  excludeSource: boolean
+  requireApproval: boolean
+  showSuccessMessage: boolean
+  showOriginalSender: boolean
+  syncRecall: boolean
+  syncEdit: boolean
+  template: string
+  forwardTemplate: string
+  shareTemplate: string
+  fileTemplate: string
+}
+
+export const QuotedRelayRule: Schema<QuotedRelayRule> = Schema.intersect([Schema.object({
+  commandName: Schema.string().description('指令名称。'),
+  targetChannels: Schema.array(Schema.string()).role('channel').description('该指令对应的目标群组列表 (需要带平台前缀，如 onebot:12345678)。'),
+  excludeSource: Schema.boolean().default(true).description('是否排除消息来源群聊（避免转发回同一群）。'),
+  requireApproval: Schema.boolean().default(false).description('转发前需要在审核频道中通过审核 (需要数据库)。'),
+  showSuccessMessage: Schema.boolean().default(true).description('转发完成后是否发送转发成功消息。'),
+  showOriginalSender: Schema.boolean().default(true).description('是否显示原消息发送者的昵称。'),
+  syncRecall: Schema.boolean().default(false).description('原消息撤回时，同步撤回已转发的副本 (需要数据库)。'),
+  syncEdit: Schema.boolean().default(false).description('原消息编辑时，同步更新已转发的副本 (需要数据库)。'),
+  dedupWindow: Schema.number().min(0).default(0).description('去重时间窗口，单位秒。窗口内相同内容只转发一次，0 表示不去重。'),
+  dedupAcrossRules: Schema.boolean().default(false).description('在去重时间窗口内，跳过已从其他规则收到相同内容的目标频道。'),
+  allowedSourceChannels: Schema.array(Schema.string()).role('channel').default([]).description('只能在这些群聊中使用该指令 (留空则不限制，设置后不能在私聊中使用)。'),
+  allowedUsers: Schema.array(Schema.string()).default([]).description('只有这些用户可以使用该指令 (需要带平台前缀，留空则不限制)。'),
+  deniedUsers: Schema.array(Schema.string()).default([]).description('禁止这些用户使用该指令 (需要带平台前缀)，优先于允许列表。'),
+  cooldown: Schema.number().min(0).default(0).description('同一用户两次使用该指令的最小间隔，单位秒，0 表示不限制。'),
+  template: Schema.string().role('textarea').default(DEFAULT_TEMPLATE).description('显示原发送者时的转发消息模板。'),
+  forwardTemplate: Schema.string().role('textarea').default('{sender} 发送了一个转发消息').description('转发合并转发消息前，先发送的提示模板。'),
+  shareTemplate: Schema.string().role('textarea').default('{sender} 分享了：\n{content}').description('转发小程序链接时的消息模板。'),
+  fileTemplate: Schema.string().role('textarea').default('{sender} 发送了一个文件：\n{content}').description('转发文件时的消息模板。'),
+}), ContentFilterOptions])
+
+// 通过指令动态添加的规则：monitor = 监控规则，quoted = 引用转发规则，manual = 传话筒允许的群聊
+export type RuleType = 'monitor' | 'quoted' | 'manual'
+
+export interface RuleEntry {
+  id: number
+  type: RuleType
+  enabled: boolean
+  data: any
+  createdBy: string
+  createdAt: Date
+}
+
+const RULE_TYPES: Record<RuleType, string> = {
+  monitor: '监控规则',
+  quoted: '引用转发规则',
+  manual: '传话筒群聊',
+}
+
+// 规则存储：合并静态配置与数据库中动态添加的规则
+export function createRuleStore(ctx: Context, config: Config) {
+  const logger = ctx.logger('message-relay')
+  const entries = new Map<number, RuleEntry>()
+  // 规范化后的规则对象按条目缓存，保证同一条规则始终是同一个对象
+  const normalized = new Map<number, any>()
+  const listeners: (() => void)[] = []
+
+  ctx.inject(['database'], (ctx) => {
+    ctx.model.extend('message_relay_rule', {
+      id: 'unsigned',
+      type: 'string(16)',
+      enabled: 'boolean',
+      data: 'json',
+      createdBy: 'string(255)',
+      createdAt: 'timestamp',
+    }, {
+      autoInc: true,
+    })
+
+    ctx.on('ready', async () => {
+      try {
+        const rows = await ctx.database.get('message_relay_rule', {})
+        for (const row of rows) setEntry(row)
+        if (config.debug) logger.info(`已从数据库加载 ${rows.length} 条动态规则。`)
+        notify()
+      } catch (error) {
+        logger.warn('加载动态规则失败:', error)
+      }
+    })
+  })
+
+  function normalize(type: RuleType, data: any) {
+    if (type === 'monitor') {
+      const rule = MonitoringRule(data)
+      compileKeywords(rule.keywords, { scope: rule.keywordScope, loose: rule.looseMatch })
+      compileRedactPatterns(rule.redactPatterns)
+      return rule
+    }
+    if (type === 'quoted') {
+      const rule = QuotedRelayRule(data)
+      compileRedactPatterns(rule.redactPatterns)
+      return rule
+    }
+    if (!data?.channelId) throw new Error('缺少群聊 ID')
+    return data.channelId as string
+  }
+
+  function setEntry(entry: RuleEntry) {
+    try {
+      normalized.set(entry.id, normalize(entry.type, entry.data))
+      entries.set(entry.id, entry)
+    } catch (error) {
+      logger.warn(`动态规则 #${entry.id} 无效，已忽略:`, error)
+    }
+  }
+
+  function notify() {
+    for (const listener of listeners) listener()
+  }
+
+  function enabledOf(type: RuleType) {
+    return [...entries.values()]
+      .filter(entry => entry.type === type && entry.enabled)
+      .map(entry => normalized.get(entry.id))
+  }
+
+  function assertDatabase() {
+    if (!ctx.database) throw new Error('未启用数据库服务，无法动态管理规则。')
+  }
+
+  return {
+    monitoringRules(): MonitoringRule[] {
+      return [...config.monitoringRules, ...enabledOf('monitor')]
+    },
+
+    quotedRelayRules(): QuotedRelayRule[] {
+      return [...config.quotedRelayRules, ...enabledOf('quoted')]
+    },
+
+    manualRelayChannels(): string[] {
+      return [...new Set([...config.manualRelayAllowedChannels, ...enabledOf('manual')])]
+    },
+
+    entries() {
+      return [...entries.values()]
+    },
+
+    get(id: number) {
+      return entries.get(id)
+    },
+
+    subscribe(listener: () => void) {
+      listeners.push(listener)
+    },
+
+    // 校验失败时抛出异常，不会写入数据库
+    async add(type: RuleType, data: any, createdBy: string) {
+      assertDatabase()
+      normalize(type, data)
+      const entry = await ctx.database.create('message_relay_rule', {
+        type,
+        enabled: true,
+        data,
+        createdBy,
+        createdAt: new Date(),
+      })
+      setEntry(entry)
+      notify()
+      return entry
+    },
+
+    async update(id: number, patch: Partial<Pick<RuleEntry, 'enabled' | 'data'>>) {
+      assertDatabase()
+      const entry = entries.get(id)
+      if (!entry) return
+      const next = { ...entry, ...patch }
+      normalize(next.type, next.data)
+      await ctx.database.set('message_relay_rule', id, patch)
+      setEntry(next)
+      notify()
+      return next
+    },
+
+    async remove(id: number) {
+      assertDatabase()
+      if (!entries.has(id)) return false
+      await ctx.database.remove('message_relay_rule', { id })
+      entries.delete(id)
+      normalized.delete(id)
+      notify()
+      return true
+    },
+  }
+}
+
+export type RuleStore = ReturnType<typeof createRuleStore>
+
+const TYPE_ALIASES: Record<string, RuleType> = {
+  monitor: 'monitor',
+  quoted: 'quoted',
+  manual: 'manual',
+  监控: 'monitor',
+  引用: 'quoted',
+  传话: 'manual',
+}
+
+function splitList(value: string, separator = /[,，\s]+/) {
+  return (value ?? '').split(separator).map(item => item.trim()).filter(Boolean)
+}
+
+// 需要补全平台前缀的用户列表字段；频道列表字段通过 role('channel') 识别
+const USER_LIST_FIELDS = ['allowedUsers', 'deniedUsers']
+
+// 按规则结构中的字段类型转换 -o 的取值：列表字段只给出一个值时同样转为数组
+function coerceField(field: Schema, key: string, value: string, withPlatform: (id: string) => string) {
+  switch (field?.type) {
+    case 'string':
+      return value
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value
+    case 'number':
+      return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value
+    case 'array': {
+      const items = value.split('|').map(item => item.trim()).filter(Boolean)
+      return field.meta?.role === 'channel' || USER_LIST_FIELDS.includes(key) ? items.map(withPlatform) : items
+    }
+  }
+  if (value === 'true' || value === 'false') return value === 'true'
+  if (/^\d+(\.\d+)?$/.test(value)) return Number(value)
+  if (value.includes('|')) return value.split('|').map(item => item.trim()).filter(Boolean)
+  return value
+}
+
+// 在规则结构中查找字段，规则由多个 Schema.object 组合而成时逐个查找
+function findField(schema: Schema, key: string): Schema {
+  if (schema.type === 'intersect') {
+    for (const item of schema.list) {
+      const field = findField(item, key)
+      if (field) return field
+    }
+    return
+  }
+  return schema.dict?.[key]
+}
+
+// 解析 -o 选项：key=value 之间用逗号分隔，列表值用 | 分隔
+function parseFieldOptions(text: string, schema: Schema, withPlatform: (id: string) => string) {
+  const result: Record<string, any> = {}
+  for (const pair of (text ?? '').split(/[,，]/)) {
+    if (!pair.trim()) continue
+    const [rawKey, ...rest] = pair.split('=')
+    const key = rawKey.trim()
+    if (!key || !rest.length) throw new Error(`无法解析选项 "${pair}"，格式应为 key=value`)
+    result[key] = coerceField(findField(schema, key), key, rest.join('=').trim(), withPlatform)
+  }
+  return result
+}
+
+export function describeRule(type: RuleType, rule: any) {
+  if (type === 'monitor') {
+    const keywords = rule.keywords?.length ? ` 关键词: ${rule.keywords.join(' / ')}` : ''
+    return `用户 ${rule.userId} → ${(rule.relayTargetChannels ?? []).join('、')}${keywords}`
+  }
+  if (type === 'quoted') return `指令「${rule.commandName}」→ ${(rule.targetChannels ?? []).join('、')}`
+  return typeof rule === 'string' ? rule : rule?.channelId
+}
+
+export function registerRuleCommands(ctx: Context, config: Config, store: RuleStore) {
+  const withPlatform = (id: string) => id === '*' || id.includes(':') ? id : `${config.defaultPlatform}:${id}`
+
+  ctx.command('传声筒.rule', '管理转发规则', { authority: config.ruleCommandAuthLevel })
+
+  ctx.command('传声筒.rule.list [type:string]', '列出所有转发规则', { authority: config.ruleCommandAuthLevel })
+    .action(async (_, rawType) => {
+      const filter = rawType ? TYPE_ALIASES[rawType] : null
+      if (rawType && !filter) return `错误：未知的规则类型 "${rawType}"。可用类型：monitor、quoted、manual。`
+      const sections: string[] = []
+      const statics: Record<RuleType, any[]> = {
+        monitor: config.monitoringRules,
+        quoted: config.quotedRelayRules,
+        manual: config.manualRelayAllowedChannels,
+      }
+      for (const type of Object.keys(RULE_TYPES) as RuleType[]) {
+        if (filter && filter !== type) continue
+        const lines = statics[type].map(rule => `  [配置] ${describeRule(type, rule)}`)
+        for (const entry of store.entries().filter(entry => entry.type === type)) {
+          lines.push(`  #${entry.id}${entry.enabled ? '' : ' (已停用)'} ${describeRule(type, entry.data)}`)
+        }
+        sections.push(`${RULE_TYPES[type]}：\n${lines.length ? lines.join('\n') : '  (无)'}`)
+      }
+      return sections.join('\n')
+    })
+
+  ctx.command('传声筒.rule.add <type:string> <key:string>', '添加转发规则', { authority: config.ruleCommandAuthLevel })
+    .option('targets', '-t <targets:string> 目标频道，多个用逗号分隔')
+    .option('keywords', '-k <keywords:string> 关键词，多个用逗号分隔 (仅监控规则)')
+    .option('options', '-o <options:string> 其他字段，如 excludeSource=false,looseMatch=true')
+    .usage('类型：monitor (监控规则，key 为用户 ID)、quoted (引用转发规则，key 为指令名)、manual (传话筒群聊，key 为群号)。')
+    .action(async ({ session, options }, rawType, key) => {
+      const type = TYPE_ALIASES[rawType]
+      if (!type) return `错误：未知的规则类型 "${rawType}"。可用类型：monitor、quoted、manual。`
+      if (!key) return '错误：请提供规则的用户 ID、指令名或群号。'
+      const targets = splitList(options.targets).map(withPlatform)
+      let data: any
+      try {
+        const fields = parseFieldOptions(options.options, type === 'quoted' ? QuotedRelayRule : MonitoringRule, withPlatform)
+        if (type === 'monitor') {
+          if (!targets.length) return '错误：监控规则需要通过 -t 指定目标频道。'
+          data = { ...fields, userId: splitList(key).map(withPlatform).join(','), relayTargetChannels: targets, keywords: splitList(options.keywords, /[,，]/) }
+        } else if (type === 'quoted') {
+          if (!targets.length) return '错误：引用转发规则需要通过 -t 指定目标频道。'
+          if (store.quotedRelayRules().some(rule => rule.commandName === key)) return `错误：引用转发指令「${key}」已存在。`
+          if (ctx.$commander.get(key)) return `错误：指令「${key}」已存在，不能用作引用转发指令名。`
+          data = { ...fields, commandName: key, targetChannels: targets }
+        } else {
+          const channelId = withPlatform(key)
+          if (store.manualRelayChannels().includes(channelId)) return `错误：群聊 ${channelId} 已在传话筒列表中。`
+          data = { channelId }
+        }
+        const entry = await store.add(type, data, `${session.platform}:${session.userId}`)
+        const notice = type === 'quoted' && !config.quotedRelayEnabled ? '\n注意：引用转发功能未启用，该指令暂不会生效。' : ''
+        return `已添加${RULE_TYPES[type]} #${entry.id}：${describeRule(type, data)}${notice}`
+      } catch (error) {
+        return `错误：${error.message}`
+      }
+    })
+
+  ctx.command('传声筒.rule.edit <id:posint>', '修改通过指令添加的转发规则', { authority: config.ruleCommandAuthLevel })
+    .option('targets', '-t <targets:string> 目标频道，多个用逗号分隔')
+    .option('keywords', '-k <keywords:string> 关键词，多个用逗号分隔 (仅监控规则)')
+    .option('options', '-o <options:string> 其他字段，如 excludeSource=false,looseMatch=true')
+    .action(async ({ options }, id) => {
+      const entry = store.get(id)
+      if (!entry) return `错误：找不到规则 #${id} (配置文件中的规则只能在控制台修改)。`
+      if (entry.type === 'manual') return '错误：传话筒群聊规则没有可修改的字段，请删除后重新添加。'
+      try {
+        const schema = entry.type === 'quoted' ? QuotedRelayRule : MonitoringRule
+        const data = { ...entry.data, ...parseFieldOptions(options.options, schema, withPlatform) }
+        if (options.targets) {
+          data[entry.type === 'monitor' ? 'relayTargetChannels' : 'targetChannels'] = splitList(options.targets).map(withPlatform)
+        }
+        if (options.keywords !== undefined && entry.type === 'monitor') data.keywords = splitList(options.keywords, /[,，]/)
+        if (entry.type === 'quoted' && data.commandName !== entry.data.commandName
+          && store.quotedRelayRules().some(rule => rule.commandName === data.commandName)) {
+          return `错误：引用转发指令「${data.commandName}」已存在。`
+        }
+        if (entry.type === 'quoted' && data.commandName !== entry.data.commandName && ctx.$commander.get(data.commandName)) {
+          return `错误：指令「${data.commandName}」已存在，不能用作引用转发指令名。`
+        }
+        await store.update(id, { data })
+        return `已修改${RULE_TYPES[entry.type]} #${id}：${describeRule(entry.type, data)}`
+      } catch (error) {
+        return `错误：${error.message}`
+      }
+    })
+
+  ctx.command('传声筒.rule.remove <id:posint>', '删除通过指令添加的转发规则', { authority: config.ruleCommandAuthLevel })
+    .action(async (_, id) => {
+      const entry = store.get(id)
+      try {
+        if (!await store.remove(id)) return `错误：找不到规则 #${id} (配置文件中的规则只能在控制台修改)。`
+      } catch (error) {
+        return `错误：${error.message}`
+      }
+      return `已删除${RULE_TYPES[entry.type]} #${id}。`
+    })
+
+  for (const [action, enabled] of [['enable', true], ['disable', false]] as const) {
+    ctx.command(`传声筒.rule.${action} <id:posint>`, enabled ? '启用转发规则' : '停用转发规则', { authority: config.ruleCommandAuthLevel })
+      .action(async (_, id) => {
+        const entry = store.get(id)
+        if (!entry) return `错误：找不到规则 #${id} (配置文件中的规则只能在控制台修改)。`
+        if (entry.enabled === enabled) return `规则 #${id} 已经处于${enabled ? '启用' : '停用'}状态。`
+        try {
+          await store.update(id, { enabled })
+        } catch (error) {
+          return `错误：${error.message}`
+        }
+        return `已${enabled ? '启用' : '停用'}${RULE_TYPES[entry.type]} #${id}。`
+      })
+  }
+}
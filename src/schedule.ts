@@ -0,0 +1,153 @@
+import { Context, Session, Time, h } from 'koishi'
+import type { Config } from './index'
+import * as ledger from './ledger'
+import type { TargetResolver } from './target'
+import { previewContent } from './template'
+
+declare module 'koishi' {
+  interface Tables {
+    message_relay_schedule: ScheduledRelay
+  }
+}
+
+// 一条等待发送的定时传话
+export interface ScheduledRelay {
+  id: number
+  // 目标频道 (带平台前缀，可带 @selfId)
+  target: string
+  // 已按传话模板渲染的消息元素，序列化为字符串
+  content: string
+  // 创建定时传话时所在的频道与指令调用者
+  platform: string
+  channelId: string
+  messageId: string
+  userId: string
+  sendAt: Date
+  createdAt: Date
+}
+
+// 解析发送时间：delay 为相对时长 (如 30m、1h30m)；at 为 HH:mm、明天 HH:mm、MM-dd HH:mm 或 yyyy-MM-dd HH:mm
+// 只给出时刻且今天已经过去时顺延到明天，只给出月日且今年已经过去时顺延到明年；无法解析或日期不存在时返回 null
+export function parseSendTime(at?: string, delay?: string): Date | null {
+  if (delay) {
+    const ms = Time.parseTime(delay)
+    return ms > 0 ? new Date(Date.now() + ms) : null
+  }
+  const capture = /^(?:(明天|tomorrow)|(?:(\d{4})[-/])?(\d{1,2})[-/](\d{1,2}))?\s*(\d{1,2})[:：](\d{2})$/i.exec(at?.trim() ?? '')
+  if (!capture) return null
+  const [, tomorrow, year, month, day, hour, minute] = capture
+  if (+hour > 23 || +minute > 59) return null
+  const now = new Date()
+  if (month) {
+    const inYear = (fullYear: number) => new Date(fullYear, +month - 1, +day, +hour, +minute)
+    let date = inYear(year ? +year : now.getFullYear())
+    if (!year && date.getTime() <= now.getTime()) date = inYear(now.getFullYear() + 1)
+    // 月份或日期越界时 Date 会自动进位 (如 13-45)，视为无法解析
+    if (date.getMonth() !== +month - 1 || date.getDate() !== +day) return null
+    return date
+  }
+  const date = new Date(now.getFullYear(), now.getMonth(), now.getDate(), +hour, +minute)
+  if (tomorrow || date.getTime() <= now.getTime()) {
+    date.setDate(date.getDate() + 1)
+  }
+  return date
+}
+
+// 定时传话：保存在数据库中，到期后发送，插件重启后继续等待
+export function createScheduler(ctx: Context, config: Config, resolver: TargetResolver) {
+  const logger = ctx.logger('message-relay')
+  let firing = false
+
+  async function add(target: string, content: h[], session: Session, sendAt: Date) {
+    return ctx.database.create('message_relay_schedule', {
+      target,
+      content: content.join(''),
+      platform: session.platform,
+      channelId: session.channelId,
+      messageId: session.messageId ?? '',
+      userId: session.userId,
+      sendAt,
+      createdAt: new Date(),
+    })
+  }
+
+  async function fire(entry: ScheduledRelay) {
+    // 先移除再发送，失败的投递交给待重发队列处理，避免重复发送
+    await ctx.database.remove('message_relay_schedule', { id: entry.id })
+    const delivery = resolver.createDelivery(entry.target)
+    try {
+      delivery.messageIds = await resolver.send(entry.target, h.parse(entry.content), undefined, delivery)
+      delivery.success = delivery.messageIds.length > 0
+      if (!delivery.success) delivery.error = '未返回消息ID'
+      logger.info(`[成功] (定时传话) #${entry.id} 已发送到 ${entry.target}`)
+    } catch (error) {
+      logger.error(`[失败] (定时传话) #${entry.id} 发送到频道 ${entry.target} 失败:`, error)
+      delivery.error = String(error)
+    }
+    await ledger.recordRelay(ctx, {
+      ruleType: 'manual',
+      ruleKey: '传话筒',
+      platform: entry.platform,
+      channelId: entry.channelId,
+      messageId: entry.messageId,
+      userId: entry.userId,
+    }, [delivery])
+  }
+
+  async function tick() {
+    if (firing) return
+    firing = true
+    try {
+      const due = await ctx.database.get('message_relay_schedule', { sendAt: { $lte: new Date() } }, { sort: { sendAt: 'asc' } })
+      if (config.debug && due.length) logger.info(`(定时传话) 本轮到期 ${due.length} 条。`)
+      for (const entry of due) await fire(entry)
+    } catch (error) {
+      logger.warn('(定时传话) 处理定时传话失败:', error)
+    } finally {
+      firing = false
+    }
+  }
+
+  function describeEntry(entry: ScheduledRelay) {
+    const time = Time.template('yyyy-MM-dd hh:mm', entry.sendAt)
+    return `#${entry.id} ${time} → ${entry.target} (由 ${entry.platform}:${entry.userId} 创建)\n  内容：${previewContent(entry.content)}`
+  }
+
+  ctx.inject(['database'], (ctx) => {
+    ctx.model.extend('message_relay_schedule', {
+      id: 'unsigned',
+      target: 'string(255)',
+      content: 'text',
+      platform: 'string(64)',
+      channelId: 'string(255)',
+      messageId: 'string(255)',
+      userId: 'string(255)',
+      sendAt: 'timestamp',
+      createdAt: 'timestamp',
+    }, {
+      autoInc: true,
+    })
+
+    // 到期判断以数据库为准，插件重启后会继续发送错过的定时传话
+    ctx.setInterval(tick, 5 * Time.second)
+
+    ctx.command('传声筒.schedule', '查看等待发送的定时传话', { authority: config.commandAuthLevel })
+      .action(async () => {
+        const entries = await ctx.database.get('message_relay_schedule', {}, { sort: { sendAt: 'asc' } })
+        if (!entries.length) return '当前没有等待发送的定时传话。'
+        return `等待发送的定时传话：\n${entries.map(describeEntry).join('\n')}`
+      })
+
+    ctx.command('传声筒.schedule.cancel <id:posint>', '取消一条定时传话', { authority: config.commandAuthLevel })
+      .action(async (_, id) => {
+        if (!id) return '错误：请指定要取消的定时传话编号。'
+        const result = await ctx.database.remove('message_relay_schedule', { id })
+        if (!result.matched) return `错误：找不到定时传话 #${id}。`
+        return `已取消定时传话 #${id}。`
+      })
+  })
+
+  return { add }
+}
+
+export type Scheduler = ReturnType<typeof createScheduler>
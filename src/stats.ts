@@ -0,0 +1,162 @@
+import { $, Context, Time } from 'koishi'
+import type { Config } from './index'
+import { RelayRecord, RelayRuleType } from './ledger'
+
+declare module 'koishi' {
+  interface Tables {
+    message_relay_stat: RelayStat
+  }
+}
+
+// relayed = 转发成功，filtered = 被关键词过滤，skipped = 因媒体类型跳过，failed = 转发失败
+// blocked = 被内容过滤拦截，redacted = 部分内容被内容过滤替换
+export type StatEvent = 'relayed' | 'filtered' | 'skipped' | 'failed' | 'blocked' | 'redacted'
+
+// 按天累计的计数器；规则级别的事件 targetChannel 为空字符串
+export interface RelayStat {
+  date: string
+  ruleType: RelayRuleType
+  ruleKey: string
+  targetChannel: string
+  event: StatEvent
+  count: number
+}
+
+const RULE_LABELS: Record<RelayRuleType, string> = {
+  monitor: '监控',
+  quoted: '引用转发',
+  manual: '传话筒',
+  bridge: '桥接',
+  reply: '跨群回复',
+  digest: '摘要',
+}
+
+const EVENT_LABELS: Record<StatEvent, string> = {
+  relayed: '转发',
+  filtered: '关键词过滤',
+  skipped: '媒体跳过',
+  failed: '失败',
+  blocked: '内容拦截',
+  redacted: '内容替换',
+}
+
+function formatDate(date: Date) {
+  return Time.template('yyyy-MM-dd', date)
+}
+
+// 尚未写入数据库的计数，按应用实例分别累计，由 applyStats 定时批量写入
+const pendingStats = new WeakMap<Context, Map<string, RelayStat>>()
+
+// 计数加一：只在内存中累计，不等待数据库；未启用数据库时静默跳过
+export function countStat(ctx: Context, ruleType: RelayRuleType, ruleKey: string, event: StatEvent, targetChannel = '') {
+  if (!ctx.database) return
+  let pending = pendingStats.get(ctx.root)
+  if (!pending) pendingStats.set(ctx.root, pending = new Map())
+  const date = formatDate(new Date())
+  const key = [date, ruleType, ruleKey, targetChannel, event].join('\n')
+  const stat = pending.get(key)
+  if (stat) stat.count++
+  else pending.set(key, { date, ruleType, ruleKey, targetChannel, event, count: 1 })
+}
+
+// 将内存中累计的计数一次性写入数据库
+async function flushStats(ctx: Context) {
+  const pending = pendingStats.get(ctx.root)
+  if (!pending?.size) return
+  const stats = [...pending.values()]
+  pending.clear()
+  try {
+    await ctx.database.upsert('message_relay_stat', row => stats.map(stat => ({
+      ...stat,
+      count: $.add(row.count, stat.count),
+    })))
+  } catch (error) {
+    ctx.logger('message-relay').warn('写入转发统计失败:', error)
+  }
+}
+
+export function applyStats(ctx: Context, config: Config) {
+  function summarize(counts: Partial<Record<StatEvent, number>>) {
+    return (Object.keys(EVENT_LABELS) as StatEvent[])
+      .filter(event => counts[event])
+      .map(event => `${EVENT_LABELS[event]} ${counts[event]}`)
+      .join('，')
+  }
+
+  function group(rows: RelayStat[], keyOf: (row: RelayStat) => string) {
+    const groups = new Map<string, Partial<Record<StatEvent, number>>>()
+    for (const row of rows) {
+      const key = keyOf(row)
+      if (!groups.has(key)) groups.set(key, {})
+      const counts = groups.get(key)
+      counts[row.event] = (counts[row.event] ?? 0) + row.count
+    }
+    return [...groups].map(([key, counts]) => `  ${key}：${summarize(counts)}`)
+  }
+
+  function describeRelay(records: RelayRecord[]) {
+    const [first] = records
+    const time = Time.template('yyyy-MM-dd hh:mm:ss', first.createdAt)
+    const operator = `${first.platform}:${first.operatorId || first.userId}`
+    const author = first.operatorId && first.operatorId !== first.userId ? ` (原发送者 ${first.platform}:${first.userId})` : ''
+    const targets = records.map(record => `${record.targetChannel} ${record.success ? '✓' : '✗'}`).join('，')
+    return `${time} [${RULE_LABELS[first.ruleType]}] ${first.ruleKey}\n  由 ${operator} 在 ${first.platform}:${first.channelId} 触发${author}\n  → ${targets}`
+  }
+
+  ctx.inject(['database'], (ctx) => {
+    ctx.model.extend('message_relay_stat', {
+      date: 'string(10)',
+      ruleType: 'string(16)',
+      ruleKey: 'string(255)',
+      targetChannel: 'string(255)',
+      event: 'string(16)',
+      count: 'unsigned',
+    }, {
+      primary: ['date', 'ruleType', 'ruleKey', 'targetChannel', 'event'],
+    })
+
+    ctx.setInterval(() => flushStats(ctx), 5 * Time.second)
+    ctx.on('dispose', () => flushStats(ctx))
+
+    ctx.command('传声筒.stats [period:string]', '查看转发统计，period 可以是 day (今日) 或 week (近 7 日)', { authority: config.ruleCommandAuthLevel })
+      .action(async (_, period = 'day') => {
+        const days = { day: 1, 日: 1, week: 7, 周: 7 }[period]
+        if (!days) return `错误：未知的统计周期 "${period}"。可用周期：day、week。`
+        await flushStats(ctx)
+        const dates = Array.from({ length: days }, (_, index) => formatDate(new Date(Date.now() - index * Time.day)))
+        const rows = await ctx.database.get('message_relay_stat', { date: dates })
+        const title = days === 1 ? `今日 (${dates[0]})` : `近 7 日 (${dates[days - 1]} ~ ${dates[0]})`
+        if (!rows.length) return `${title}暂无转发统计。`
+        const byRule = group(rows, row => `[${RULE_LABELS[row.ruleType]}] ${row.ruleKey}`)
+        const byTarget = group(rows.filter(row => row.targetChannel), row => row.targetChannel)
+        return [
+          `转发统计 ${title}：`,
+          '按规则：',
+          ...byRule,
+          '按目标频道：',
+          ...(byTarget.length ? byTarget : ['  (无)']),
+        ].join('\n')
+      })
+
+    ctx.command('传声筒.audit [count:posint]', '查看最近的转发记录及触发者', { authority: config.ruleCommandAuthLevel })
+      .action(async (_, count = 10) => {
+        count = Math.min(count, 50)
+        // 每次转发的每个目标各占一行，多取一些再按源消息归并
+        const records = await ctx.database.get('message_relay_record', {}, {
+          sort: { id: 'desc' },
+          limit: count * 10,
+        })
+        const relays = new Map<string, RelayRecord[]>()
+        for (const record of records) {
+          const key = [record.ruleType, record.platform, record.channelId, record.messageId, +record.createdAt].join(':')
+          if (!relays.has(key)) {
+            if (relays.size >= count) break
+            relays.set(key, [])
+          }
+          relays.get(key).push(record)
+        }
+        if (!relays.size) return '暂无转发记录。'
+        return `最近 ${relays.size} 次转发：\n${[...relays.values()].map(describeRelay).join('\n')}`
+      })
+  })
+}
@@ -0,0 +1,145 @@
+import { Context, Session, h } from 'koishi'
+import type { Config } from './index'
+import * as ledger from './ledger'
+import { RelayRecord } from './ledger'
+import { ContentFilter, ContentFilterOptions } from './filter'
+import { ConvertTemplates, ConvertedMessage, ElementConverter } from './convert'
+import { RuleStore } from './rules'
+import { DEFAULT_TEMPLATE, createTemplateVariables } from './template'
+import { TargetResolver } from './target'
+
+// 源消息撤回 / 编辑后，将变更同步到所有已转发的副本
+export function applySync(ctx: Context, config: Config, rules: RuleStore, resolver: TargetResolver, converter: ElementConverter, contentFilter: ContentFilter) {
+  const logger = ctx.logger('message-relay')
+
+  interface SyncOptions {
+    syncRecall: boolean
+    syncEdit: boolean
+    // 与首次转发相同的模板；为 null 时不显示发送者，直接发送内容
+    templates: ConvertTemplates | null
+    // 编辑后的内容同样经过该规则的内容过滤
+    filter: ContentFilterOptions
+  }
+
+  // 根据台账记录找到触发它的规则，并读取该规则的同步开关
+  function getSyncOptions(record: RelayRecord): SyncOptions {
+    if (record.ruleType === 'monitor') {
+      const rule = rules.monitoringRules().find(rule => rule.userId === record.ruleKey)
+      if (!rule) return
+      return { syncRecall: rule.syncRecall, syncEdit: rule.syncEdit, templates: { template: rule.template ?? DEFAULT_TEMPLATE }, filter: rule }
+    }
+    if (record.ruleType === 'quoted') {
+      const rule = rules.quotedRelayRules().find(rule => rule.commandName === record.ruleKey)
+      if (!rule) return
+      return { syncRecall: rule.syncRecall, syncEdit: rule.syncEdit, templates: rule.showOriginalSender ? rule : null, filter: rule }
+    }
+    if (record.ruleType === 'bridge') {
+      const rule = config.bridgeRules.find(rule => rule.name === record.ruleKey)
+      if (!rule) return
+      return { syncRecall: rule.syncRecall, syncEdit: rule.syncEdit, templates: { template: rule.template ?? DEFAULT_TEMPLATE }, filter: rule }
+    }
+  }
+
+  // 副本由哪个机器人发出，就由哪个机器人撤回或编辑
+  function targetOf(record: RelayRecord) {
+    return record.selfId ? `${record.targetChannel}@${record.selfId}` : record.targetChannel
+  }
+
+  async function getSenderDisplayName(session: Session, target: string) {
+    try {
+      const member = await resolver.getGuildMember(target, session.userId, session)
+      if (member?.name) return member.name
+      if (member?.nick) return member.nick
+    } catch (error) {
+      if (config.debug) logger.info(`(同步) 无法获取用户在 ${target} 的昵称，将使用用户名。`)
+    }
+    return session.username || session.userId
+  }
+
+  async function deleteCopies(session: Session, record: RelayRecord) {
+    for (const messageId of record.messageIds) {
+      try {
+        await resolver.deleteMessage(targetOf(record), messageId, session)
+      } catch (error) {
+        logger.warn(`[失败] 撤回频道 ${record.targetChannel} 中的转发副本 ${messageId} 失败:`, error)
+      }
+    }
+  }
+
+  ctx.on('message-deleted', async (session) => {
+    const records = await ledger.findRelaysBySource(ctx, session.platform, session.channelId, session.messageId)
+    if (!records.length) return
+    let count = 0
+    for (const record of records) {
+      if (!record.messageIds.length) continue
+      if (!getSyncOptions(record)?.syncRecall) continue
+      await deleteCopies(session, record)
+      await ledger.updateRelayCopies(ctx, record.id, [])
+      count++
+    }
+    if (config.debug && count) logger.info(`源消息 ${session.messageId} 已撤回，已同步撤回 ${count} 个频道中的副本。`)
+  })
+
+  ctx.on('message-updated', async (session) => {
+    const records = await ledger.findRelaysBySource(ctx, session.platform, session.channelId, session.messageId)
+    if (!records.length) return
+    // 编辑后的内容与首次转发一样经过统一的转换管线，只转换一次，供所有副本复用
+    let converted: Promise<ConvertedMessage>
+    // 同一规则的多个副本只过滤一次；被拦截时为 undefined
+    const filtered = new Map<string, Promise<h[] | undefined>>()
+    let count = 0
+    for (const record of records) {
+      if (!record.messageIds.length) continue
+      const options = getSyncOptions(record)
+      if (!options?.syncEdit) continue
+
+      const target = targetOf(record)
+      converted ??= converter.convert(session.bot, session.elements ?? h.parse(session.content ?? '')).then((converted) => {
+        if (!converted.content.length) converted.content = [h.text(session.content ?? '')]
+        return converted
+      })
+      const { kind, content } = await converted
+      const ruleKey = `${record.ruleType}:${record.ruleKey}`
+      if (!filtered.has(ruleKey)) {
+        filtered.set(ruleKey, contentFilter.filter(record.ruleType, record.ruleKey, options.filter, session, content))
+      }
+      const elements = await filtered.get(ruleKey)
+      // 编辑后的内容命中屏蔽词时不再保留副本
+      if (!elements) {
+        await deleteCopies(session, record)
+        await ledger.updateRelayCopies(ctx, record.id, [])
+        count++
+        continue
+      }
+      const { templates } = options
+      const templateStrings = templates ? [templates.template, templates.forwardTemplate, templates.shareTemplate, templates.fileTemplate] : []
+      const templateVariables = await createTemplateVariables(session, templateStrings, {
+        sender: await getSenderDisplayName(session, target),
+      }, resolver.lookup)
+      const messages = converter.render({ kind, content: elements }, templates, templateVariables)
+
+      try {
+        // 副本与新内容都只有一条消息时优先原地编辑，平台不支持时退回为撤回后重发
+        if (record.messageIds.length === 1 && messages.length === 1) {
+          try {
+            await resolver.editMessage(target, record.messageIds[0], messages[0], session)
+            count++
+            continue
+          } catch {
+            if (config.debug) logger.info(`平台 ${session.platform} 不支持编辑消息，改为撤回后重发。`)
+          }
+        }
+        await deleteCopies(session, record)
+        const messageIds: string[] = []
+        for (const message of messages) {
+          messageIds.push(...await resolver.send(target, message, session))
+        }
+        await ledger.updateRelayCopies(ctx, record.id, messageIds)
+        count++
+      } catch (error) {
+        logger.error(`[失败] 同步编辑到频道 ${record.targetChannel} 时发生错误:`, error)
+      }
+    }
+    if (config.debug && count) logger.info(`源消息 ${session.messageId} 已编辑，已同步更新 ${count} 个频道中的副本。`)
+  })
+}
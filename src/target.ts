@@ -0,0 +1,234 @@
+import { Bot, Context, Session, Universal, h } from 'koishi'
+import type { Config } from './index'
+import { RelayDelivery } from './ledger'
+import { LookupCache } from './lookup'
+import { MediaPipeline } from './media'
+import { SendQueue } from './queue'
+
+export interface RelayTarget {
+  platform: string
+  channelId: string
+  // 指定发送用的机器人账号，如 onebot:12345@bot2 中的 bot2
+  selfId?: string
+}
+
+// QQ 系平台共享表情、商城表情等元素
+const QQ_PLATFORMS = ['onebot', 'qq', 'red', 'chronocat', 'lagrange']
+// 支持 figure 合并转发的平台
+const FIGURE_PLATFORMS = ['onebot', 'red', 'chronocat', 'lagrange']
+
+// 解析目标频道 ID：platform:channelId[@selfId]，未写平台时使用 defaultPlatform
+export function parseTarget(target: string, defaultPlatform = ''): RelayTarget {
+  const index = target.indexOf(':')
+  const platform = index >= 0 ? target.slice(0, index) : defaultPlatform
+  let channelId = index >= 0 ? target.slice(index + 1) : target
+  let selfId: string
+  const at = channelId.lastIndexOf('@')
+  if (at > 0) {
+    selfId = channelId.slice(at + 1)
+    channelId = channelId.slice(0, at)
+  }
+  return { platform, channelId, selfId }
+}
+
+// 去掉 @selfId 后缀的频道标识，用于比较与写入转发记录
+export function channelKey(target: string) {
+  const { platform, channelId } = parseTarget(target)
+  return `${platform}:${channelId}`
+}
+
+// 将元素转换为目标平台可以显示的形式；同平台之间除合并转发外原样发送
+export function adaptElements(elements: h[], from: string, to: string): h[] {
+  if (from === to && FIGURE_PLATFORMS.includes(to)) return elements
+  const sameFamily = from === to || QQ_PLATFORMS.includes(from) && QQ_PLATFORMS.includes(to)
+  return elements.flatMap((element): h[] => {
+    const attrs = element.attrs ?? {}
+    switch (element.type) {
+      case 'at':
+        // 不同平台的用户 ID 不通用，@ 只能降级为文本
+        if (sameFamily) return [element]
+        if (attrs.type === 'all') return [h.text('@全体成员')]
+        return [h.text(`@${attrs.name || attrs.id || ''}`)]
+      case 'face':
+        if (sameFamily) return [element]
+        return [h.text(attrs.name ? `[${attrs.name}]` : '[表情]')]
+      case 'mface':
+        if (sameFamily) return [element]
+        return attrs.url ? [h.image(attrs.url)] : [h.text(attrs.summary || '[表情包]')]
+      case 'record':
+        return [h('audio', attrs, element.children)]
+      case 'json':
+        return sameFamily ? [element] : [h.text('[小程序]')]
+      case 'forward':
+        return sameFamily ? [element] : [h.text('[合并转发]')]
+      case 'figure':
+        if (FIGURE_PLATFORMS.includes(to)) return [h('figure', attrs, adaptElements(element.children, from, to))]
+        // 不支持合并转发的平台：展开为逐条文本
+        return element.children.flatMap((message) => {
+          const nickname = message.attrs?.nickname || message.attrs?.userId || ''
+          return [h.text(`${nickname}：`), ...adaptElements(message.children ?? [], from, to), h.text('\n')]
+        })
+      default:
+        if (!element.children?.length) return [element]
+        return [h(element.type, attrs, adaptElements(element.children, from, to))]
+    }
+  })
+}
+
+// 目标解析：按平台 (及可选的 selfId) 选择机器人，并在发送前适配元素；发送与编辑都经过发送队列
+export function createTargetResolver(ctx: Context, config: Config, media: MediaPipeline, queue: SendQueue, lookup: LookupCache) {
+  const logger = ctx.logger('message-relay')
+
+  function parse(target: string) {
+    return parseTarget(target, config.defaultPlatform)
+  }
+
+  function getBot(target: string, preferred?: Bot<Context>): Bot<Context> | undefined {
+    const { platform, selfId } = parse(target)
+    const candidates = ctx.bots.filter(bot => bot.platform === platform && (!selfId || bot.selfId === selfId))
+    if (preferred && candidates.includes(preferred)) return preferred
+    return candidates.find(bot => bot.status === Universal.Status.ONLINE) ?? candidates[0]
+  }
+
+  function requireBot(target: string, preferred?: Bot<Context>) {
+    const bot = getBot(target, preferred)
+    if (!bot) throw new Error(`找不到可用于发送到 ${target} 的机器人`)
+    return bot
+  }
+
+  // 被 @ 用户在来源群中的显示名称，获取失败时使用元素自带的名称或用户 ID
+  async function getSourceName(userId: string, name: string, session?: Session) {
+    if (name) return name
+    if (session?.guildId) {
+      const displayName = await lookup.getDisplayName(session.bot, session.guildId, userId)
+      if (displayName) return displayName
+    }
+    return userId
+  }
+
+  // 按目标频道改写 @：@全体成员一律转为文本；被 @ 的用户是目标群成员时保留，否则转为 @昵称 文本，避免误提醒目标群中的其他人
+  async function translateMentions(elements: h[], target: string, session?: Session): Promise<h[]> {
+    if (!h.select(elements, 'at').length) return elements
+    const { platform, channelId } = parse(target)
+    const bot = getBot(target, session?.bot)
+
+    function isMember(userId: string) {
+      // 跨平台时用户 ID 不通用
+      if (!bot || (session?.platform ?? platform) !== platform) return Promise.resolve(false)
+      return lookup.getGuildMember(bot, channelId, userId).then(member => !!member, () => false)
+    }
+
+    async function transform(elements: h[]): Promise<h[]> {
+      const result: h[] = []
+      for (const element of elements) {
+        if (element.type === 'at') {
+          const { id, name, type } = element.attrs
+          if (type === 'all' || type === 'here') {
+            result.push(h.text('@全体成员'))
+          } else if (id && await isMember(id)) {
+            result.push(element)
+          } else {
+            result.push(h.text(`@${id ? await getSourceName(id, name, session) : name || ''}`))
+          }
+        } else if (element.children?.length) {
+          result.push(h(element.type, element.attrs, await transform(element.children)))
+        } else {
+          result.push(element)
+        }
+      }
+      return result
+    }
+
+    return transform(elements)
+  }
+
+  // 发送已适配目标平台的元素
+  async function deliver(target: string, elements: h[], preferred?: Bot<Context>): Promise<string[]> {
+    const bot = requireBot(target, preferred)
+    const { channelId } = parse(target)
+    return queue.schedule(channelKey(target), async () => {
+      try {
+        return await bot.sendMessage(channelId, elements) ?? []
+      } catch (error) {
+        // 目标平台拒收语音或文件时，改为发送链接或文件信息
+        const degraded = media.degrade(elements)
+        if (!degraded) throw error
+        logger.warn(`频道 ${target} 拒收语音/文件，改为发送替代内容: ${error.message}`)
+        return await bot.sendMessage(channelId, degraded) ?? []
+      }
+    })
+  }
+
+  return {
+    parse,
+    getBot,
+
+    isSameChannel(target: string, platform: string, channelId: string) {
+      const parsed = parse(target)
+      return parsed.platform === platform && parsed.channelId === channelId
+    },
+
+    createDelivery(target: string, session?: Session): RelayDelivery {
+      return { targetChannel: target, selfId: getBot(target, session?.bot)?.selfId, messageIds: [], success: false }
+    },
+
+    deliver,
+
+    // 传入 delivery 时，发送失败会记下首次失败的内容，以便写入待重发队列
+    async send(target: string, content: h.Fragment, session?: Session, delivery?: RelayDelivery): Promise<string[]> {
+      const { platform } = parse(target)
+      const mentions = await translateMentions(h.normalize(content), target, session)
+      const elements = adaptElements(mentions, session?.platform ?? platform, platform)
+      try {
+        return await deliver(target, elements, session?.bot)
+      } catch (error) {
+        if (delivery) delivery.retryContent ??= media.restore(elements).join('')
+        throw error
+      }
+    },
+
+    async deleteMessage(target: string, messageId: string, session?: Session) {
+      const bot = requireBot(target, session?.bot)
+      await bot.deleteMessage(parse(target).channelId, messageId)
+    },
+
+    async editMessage(target: string, messageId: string, content: h.Fragment, session?: Session) {
+      const bot = requireBot(target, session?.bot)
+      const { channelId, platform } = parse(target)
+      const mentions = await translateMentions(h.normalize(content), target, session)
+      const elements = adaptElements(mentions, session?.platform ?? platform, platform)
+      await queue.schedule(channelKey(target), () => bot.editMessage(channelId, messageId, elements))
+    },
+
+    lookup,
+
+    // 跨平台时用户 ID 不通用，直接返回 undefined
+    async getGuildMember(target: string, userId: string, session?: Session) {
+      const { platform, channelId } = parse(target)
+      if (session && session.platform !== platform) return
+      const bot = getBot(target, session?.bot)
+      if (bot) return lookup.getGuildMember(bot, channelId, userId)
+    },
+
+    // 并行获取用户在多个目标群中的显示名称，获取失败的目标不会出现在结果中
+    async getDisplayNames(targets: string[], userId: string, session?: Session) {
+      const names = new Map<string, string>()
+      await Promise.all(targets.map(async (target) => {
+        const { platform, channelId } = parse(target)
+        const bot = getBot(target, session?.bot)
+        if (!bot || session && session.platform !== platform) return
+        const name = await lookup.getDisplayName(bot, channelId, userId)
+        if (name) names.set(target, name)
+        else if (config.debug) logger.info(`无法获取用户 ${userId} 在目标频道 ${target} 的昵称。`)
+      }))
+      return names
+    },
+
+    async getGuild(target: string, session?: Session) {
+      const bot = requireBot(target, session?.bot)
+      return lookup.getGuild(bot, parse(target).channelId)
+    },
+  }
+}
+
+export type TargetResolver = ReturnType<typeof createTargetResolver>
@@ -0,0 +1,82 @@
+import { Session, Time, h } from 'koishi'
+import type { LookupCache } from './lookup'
+
+export const DEFAULT_TEMPLATE = '{sender}：{content}'
+
+export interface TemplateVariables {
+  // 发送者显示名称
+  sender: string
+  senderId: string
+  // 源群聊名称，仅在模板用到时才会获取
+  guildName: string
+  // 源频道 ID (带平台前缀)
+  channel: string
+  platform: string
+  time: Date
+}
+
+export function usesPlaceholder(templates: string[], name: keyof TemplateVariables) {
+  return templates.some(template => template?.includes(`{${name}}`))
+}
+
+export async function getGuildName(session: Session, guildId = session.guildId, lookup?: LookupCache) {
+  if (!guildId) return ''
+  try {
+    const guild = lookup ? await lookup.getGuild(session.bot, guildId) : await session.bot.getGuild(guildId)
+    if (guild?.name) return guild.name
+  } catch {}
+  return guildId
+}
+
+// 根据会话生成模板变量；sender 由调用方传入 (通常是目标群昵称)，传入 lookup 时群名称经过缓存获取
+export async function createTemplateVariables(session: Session, templates: string[], overrides: Partial<TemplateVariables> = {}, lookup?: LookupCache): Promise<TemplateVariables> {
+  return {
+    sender: session.username || session.userId,
+    senderId: session.userId,
+    guildName: usesPlaceholder(templates, 'guildName') ? await getGuildName(session, session.guildId, lookup) : '',
+    channel: `${session.platform}:${session.channelId}`,
+    platform: session.platform,
+    time: new Date(session.timestamp || Date.now()),
+    ...overrides,
+  }
+}
+
+function substitute(text: string, variables: TemplateVariables) {
+  return text.replace(/\{(\w+)\}/g, (match, key: string) => {
+    if (key === 'time') return Time.template('yyyy-MM-dd hh:mm:ss', variables.time)
+    if (key in variables) return String(variables[key] ?? '')
+    return match
+  })
+}
+
+/**
+ * 渲染转发模板。模板支持消息元素语法，例如 `<b>{sender}</b>` 或 `<quote>`，
+ * `{content}` 会被替换为消息内容元素本身，因此可以放在任意元素内部。
+ */
+export function renderTemplate(template: string, variables: TemplateVariables, content: h[] = []): h[] {
+  function fill(elements: h[]): h[] {
+    return elements.flatMap((element) => {
+      if (element.type !== 'text') {
+        return [h(element.type, element.attrs, fill(element.children))]
+      }
+      const result: h[] = []
+      const segments = String(element.attrs.content ?? '').split('{content}')
+      segments.forEach((segment, index) => {
+        if (index > 0) result.push(...content)
+        const text = substitute(segment, variables)
+        if (text) result.push(h.text(text))
+      })
+      return result
+    })
+  }
+  return fill(h.parse(template ?? DEFAULT_TEMPLATE))
+}
+
+// 将序列化的消息内容压缩为单行摘要，用于列表与审核预览；非文本元素显示为 [类型]
+export function previewContent(content: string, length = 50) {
+  const text = h.parse(content)
+    .map(element => element.type === 'text' ? element.attrs.content : `[${element.type}]`)
+    .join('')
+    .replace(/\s+/g, ' ')
+  return text.length > length ? text.slice(0, length) + '…' : text
+}